@@ -0,0 +1,308 @@
+/**
+ * Portable vault backups for EtherVault3 CLI
+ * One password-protected file with wallets, transactions, settings and the user profile
+ */
+
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+import chalk from 'chalk';
+import { secureStorage, SCHEMA_VERSION, migrateDocument } from './storage.js';
+import type { StoredWallet, WalletAccount, TransactionRecord, WalletConfig, UserProfile } from './storage.js';
+import { deriveKey, parseKdfTag, formatKdfTag, DEFAULT_KDF } from './kdf.js';
+import { log, LogCategory } from './logger.js';
+
+const BACKUP_FORMAT = 'ethervault3-backup';
+const BACKUP_VERSION = 1;
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+
+// Secrets are decrypted from the vault and protected by the backup password alone, so the file opens on any machine
+export type BackupAccount = Omit<WalletAccount, 'encryptedPrivateKey'> & { privateKey?: string };
+export type BackupWallet = Omit<StoredWallet, 'encryptedMnemonic' | 'encryptedPassphrase' | 'accounts'> & {
+    mnemonic?: string;
+    passphrase?: string;
+    accounts: BackupAccount[];
+};
+
+export interface BackupContents {
+    schemaVersion: number;
+    createdAt: string;
+    user: UserProfile | null;
+    config: WalletConfig;
+    wallets: BackupWallet[];
+    transactions: TransactionRecord[];
+}
+
+// What is written to disk; everything but the header is inside ciphertext
+interface BackupFile {
+    format: string;
+    version: number;
+    createdAt: string;
+    kdf: string; // KDF tag, e.g. "scrypt,N=131072,r=8,p=1"
+    salt: string; // hex
+    iv: string; // hex
+    tag: string; // hex
+    checksum: string; // SHA-256 of the ciphertext; spots a damaged copy before the password is tried
+    ciphertext: string; // base64
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface BackupPreview {
+    createdAt: string;
+    user: string | null;
+    wallets: Array<{ id: string; name: string; network: string; accounts: number; exists: boolean; addressesIn: string | null }>;
+    transactions: number;
+    newTransactions: number;
+    networks: string[];
+    tokens: number;
+    nfts: number;
+}
+
+export interface ImportResult {
+    mode: ImportMode;
+    walletsAdded: number;
+    walletsSkipped: number; // Already in the vault, by id or by address (merge only)
+    transactionsAdded: number;
+}
+
+function headerAad(file: Pick<BackupFile, 'format' | 'version' | 'createdAt' | 'kdf'>): Buffer {
+    return Buffer.from(`${file.format}:${file.version}:${file.createdAt}:${file.kdf}`, 'utf8');
+}
+
+function sha256(data: string): string {
+    return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+async function collectContents(): Promise<BackupContents> {
+    const wallets = await secureStorage.loadWallets();
+    return {
+        schemaVersion: SCHEMA_VERSION,
+        createdAt: new Date().toISOString(),
+        user: secureStorage.loadUserProfile(),
+        config: secureStorage.getConfig(),
+        wallets: wallets.map(({ encryptedMnemonic, encryptedPassphrase, accounts, ...wallet }) => ({
+            ...wallet,
+            ...(encryptedMnemonic && { mnemonic: secureStorage.decryptData(encryptedMnemonic) }),
+            ...(encryptedPassphrase && { passphrase: secureStorage.decryptData(encryptedPassphrase) }),
+            accounts: accounts.map(({ encryptedPrivateKey, ...account }) => ({
+                ...account,
+                ...(encryptedPrivateKey && { privateKey: secureStorage.decryptData(encryptedPrivateKey) })
+            }))
+        })),
+        transactions: await secureStorage.loadTransactions()
+    };
+}
+
+// Write the whole vault to a new backup file; an existing file is never overwritten
+export async function createBackup(file: string, password: string): Promise<BackupContents> {
+    const contents = await collectContents();
+
+    const salt = crypto.randomBytes(16);
+    const key = deriveKey(password, salt, DEFAULT_KDF);
+    const header = { format: BACKUP_FORMAT, version: BACKUP_VERSION, createdAt: contents.createdAt, kdf: formatKdfTag(DEFAULT_KDF) };
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+    cipher.setAAD(headerAad(header));
+    const ciphertext = Buffer.concat([cipher.update(JSON.stringify(contents), 'utf8'), cipher.final()]).toString('base64');
+
+    const backup: BackupFile = {
+        ...header,
+        salt: salt.toString('hex'),
+        iv: iv.toString('hex'),
+        tag: cipher.getAuthTag().toString('hex'),
+        checksum: sha256(ciphertext),
+        ciphertext
+    };
+
+    fs.writeFileSync(file, JSON.stringify(backup, null, 2), { mode: 0o600, flag: 'wx' });
+    log.info(LogCategory.STORAGE, `Backup written to ${file}`, { wallets: contents.wallets.length, transactions: contents.transactions.length });
+    return contents;
+}
+
+export function readBackup(file: string, password: string): BackupContents {
+    let backup: BackupFile;
+    try {
+        backup = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (error: any) {
+        throw new Error(error?.code === 'ENOENT' ? `Backup file not found: ${file}` : `Not an EtherVault3 backup: ${file}`);
+    }
+    if (backup?.format !== BACKUP_FORMAT || typeof backup.ciphertext !== 'string') {
+        throw new Error(`Not an EtherVault3 backup: ${file}`);
+    }
+    if (backup.version > BACKUP_VERSION) {
+        throw new Error(`Backup format version ${backup.version} is newer than this version of EtherVault3 supports. Please update EtherVault3.`);
+    }
+    if (sha256(backup.ciphertext) !== backup.checksum) {
+        throw new Error('Backup file is damaged: checksum mismatch');
+    }
+
+    let json: string;
+    try {
+        const key = deriveKey(password, Buffer.from(backup.salt, 'hex'), parseKdfTag(backup.kdf));
+        const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(backup.iv, 'hex'));
+        decipher.setAAD(headerAad(backup));
+        decipher.setAuthTag(Buffer.from(backup.tag, 'hex'));
+        json = Buffer.concat([decipher.update(Buffer.from(backup.ciphertext, 'base64')), decipher.final()]).toString('utf8');
+    } catch {
+        throw new Error('Wrong backup password or damaged backup file');
+    }
+
+    return migrateContents(JSON.parse(json));
+}
+
+// Bring a bundle written by an older release to the current layout; one from a newer release is refused
+function migrateContents(contents: BackupContents): BackupContents {
+    const version = contents.schemaVersion ?? 1;
+    if (version > SCHEMA_VERSION) {
+        throw new Error(`Backup uses storage schema version ${version}, newer than supported ${SCHEMA_VERSION}. Please update EtherVault3.`);
+    }
+    if (version === SCHEMA_VERSION) {
+        return contents;
+    }
+    return {
+        ...contents,
+        schemaVersion: SCHEMA_VERSION,
+        config: migrateDocument('config', contents.config ?? {}, version),
+        wallets: migrateWallets(contents.wallets ?? [], version),
+        transactions: migrateDocument('transactions', contents.transactions ?? [], version)
+    };
+}
+
+// The migrations expect the vault layout, where a single-account wallet kept its key as encryptedPrivateKey; a backup holds it as privateKey
+function migrateWallets(wallets: any[], fromVersion: number): BackupWallet[] {
+    const vaultLayout = wallets.map(({ privateKey, ...wallet }) => ({ ...wallet, ...(privateKey && { encryptedPrivateKey: privateKey }) }));
+    return migrateDocument('wallets', vaultLayout, fromVersion).map((wallet: any) => ({
+        ...wallet,
+        accounts: wallet.accounts.map(({ encryptedPrivateKey, ...account }: any) => ({
+            ...account,
+            ...(encryptedPrivateKey && { privateKey: encryptedPrivateKey })
+        }))
+    }));
+}
+
+// Vault wallet with the same id, or holding any of the same addresses; an address lives in one wallet only
+function findExisting(wallet: BackupWallet, vault: StoredWallet[]): StoredWallet | undefined {
+    const addresses = new Set(wallet.accounts.map(account => account.address.toLowerCase()));
+    return vault.find(w => w.id === wallet.id || w.accounts.some(account => addresses.has(account.address.toLowerCase())));
+}
+
+export async function previewBackup(contents: BackupContents): Promise<BackupPreview> {
+    const vault = await secureStorage.loadWallets();
+    const existingTransactions = new Set((await secureStorage.loadTransactions()).map(tx => tx.id));
+    const count = (registry?: { [network: string]: unknown[] }) =>
+        Object.values(registry ?? {}).reduce((total, entries) => total + entries.length, 0);
+
+    return {
+        createdAt: contents.createdAt,
+        user: contents.user?.username ?? null,
+        wallets: contents.wallets.map(wallet => {
+            const existing = findExisting(wallet, vault);
+            return {
+                id: wallet.id,
+                name: wallet.name,
+                network: wallet.network,
+                accounts: wallet.accounts.length,
+                exists: existing?.id === wallet.id,
+                addressesIn: existing && existing.id !== wallet.id ? existing.name : null
+            };
+        }),
+        transactions: contents.transactions.length,
+        newTransactions: contents.transactions.filter(tx => !existingTransactions.has(tx.id)).length,
+        networks: (contents.config.networks ?? []).map(n => n.name),
+        tokens: count(contents.config.tokens),
+        nfts: count(contents.config.nfts)
+    };
+}
+
+export function printBackupPreview(preview: BackupPreview): void {
+    console.log(chalk.cyan(`\n📦 Backup created ${new Date(preview.createdAt).toLocaleString()}${preview.user ? ` by ${preview.user}` : ''}`));
+    console.log(chalk.white(`Wallets (${preview.wallets.length}):`));
+    preview.wallets.forEach(wallet => {
+        const marker = wallet.exists
+            ? chalk.gray(' (already in this vault)')
+            : wallet.addressesIn ? chalk.gray(` (addresses already in "${wallet.addressesIn}")`) : '';
+        console.log(`  - ${wallet.name} - ${wallet.network}, ${wallet.accounts} account(s)${marker}`);
+    });
+    console.log(`Transactions: ${preview.transactions} (${preview.newTransactions} not in this vault)`);
+    console.log(`Custom networks: ${preview.networks.length > 0 ? preview.networks.join(', ') : 'none'}`);
+    console.log(`Registered tokens: ${preview.tokens}, NFT collections: ${preview.nfts}`);
+}
+
+// Union of two per-network registries; entries already present (by address) win
+function mergeRegistry<T extends { address: string }>(
+    current: { [network: string]: T[] } | undefined,
+    incoming: { [network: string]: T[] } | undefined
+): { [network: string]: T[] } {
+    const merged: { [network: string]: T[] } = { ...current };
+    for (const [network, entries] of Object.entries(incoming ?? {})) {
+        const existing = merged[network] ?? [];
+        const known = new Set(existing.map(entry => entry.address.toLowerCase()));
+        merged[network] = [...existing, ...entries.filter(entry => !known.has(entry.address.toLowerCase()))];
+    }
+    return merged;
+}
+
+function toStoredWallet(wallet: BackupWallet): StoredWallet {
+    const { mnemonic, passphrase, accounts, ...rest } = wallet;
+    return {
+        ...rest,
+        ...(mnemonic && { encryptedMnemonic: secureStorage.encryptData(mnemonic) }),
+        ...(passphrase && { encryptedPassphrase: secureStorage.encryptData(passphrase) }),
+        accounts: accounts.map(({ privateKey, ...account }) => ({
+            ...account,
+            ...(privateKey && { encryptedPrivateKey: secureStorage.encryptData(privateKey) })
+        }))
+    };
+}
+
+// Merge keeps everything in the vault and adds what is missing; replace makes the vault match the backup
+export async function importBackup(bundle: BackupContents, mode: ImportMode): Promise<ImportResult> {
+    const contents = migrateContents(bundle);
+    if (mode === 'replace') {
+        await secureStorage.saveWallets(contents.wallets.map(toStoredWallet));
+        await secureStorage.replaceTransactions(contents.transactions);
+        secureStorage.replaceConfig(contents.config);
+        if (contents.user) {
+            secureStorage.saveUserProfile(contents.user);
+        }
+        log.info(LogCategory.STORAGE, 'Vault replaced from backup', { wallets: contents.wallets.length });
+        return { mode, walletsAdded: contents.wallets.length, walletsSkipped: 0, transactionsAdded: contents.transactions.length };
+    }
+
+    const wallets = await secureStorage.loadWallets();
+    const added: StoredWallet[] = [];
+    for (const wallet of contents.wallets) {
+        if (!findExisting(wallet, [...wallets, ...added])) {
+            added.push(toStoredWallet(wallet));
+        }
+    }
+    if (added.length > 0) {
+        await secureStorage.saveWallets([...wallets, ...added]);
+    }
+
+    const transactionIds = new Set((await secureStorage.loadTransactions()).map(tx => tx.id));
+    const newTransactions = contents.transactions.filter(tx => !transactionIds.has(tx.id));
+    if (newTransactions.length > 0) {
+        await secureStorage.saveTransactions(newTransactions);
+    }
+
+    const config = secureStorage.getConfig();
+    const networkNames = new Set((config.networks ?? []).map(n => n.name));
+    secureStorage.updateConfig({
+        networks: [...(config.networks ?? []), ...(contents.config.networks ?? []).filter(n => !networkNames.has(n.name))],
+        tokens: mergeRegistry(config.tokens, contents.config.tokens),
+        nfts: mergeRegistry(config.nfts, contents.config.nfts)
+    });
+    if (contents.user && !secureStorage.loadUserProfile()) {
+        secureStorage.saveUserProfile(contents.user);
+    }
+
+    log.info(LogCategory.STORAGE, 'Backup merged into vault', { wallets: added.length, transactions: newTransactions.length });
+    return {
+        mode,
+        walletsAdded: added.length,
+        walletsSkipped: contents.wallets.length - added.length,
+        transactionsAdded: newTransactions.length
+    };
+}
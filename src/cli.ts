@@ -0,0 +1,835 @@
+/**
+ * Non-interactive subcommands for EtherVault3 CLI
+ * Lets scripts and CI drive the wallet without the inquirer menus
+ */
+
+import inquirer from "inquirer";
+import chalk from "chalk";
+import * as fs from "fs";
+import { ethers } from "ethers";
+import { decryptKeystore, saveImportedKeys, parseWatchAddresses, parseXpub, saveWatchWallet, walletXpub, findXpubAddress, deriveXpubAccounts, ACCOUNT_XPUB_PATH, encryptAccountKeystore, getAddressBalance, prepareAccountTransfer, prepareTokenTransfer, executeAccountTransfer, loadAccountTransactions, formatTransactionAmount } from "./wallet.js";
+import type { WatchSource } from "./wallet.js";
+import { secureStorage, isHdWallet, isWatchOnly, needsBackup } from "./storage.js";
+import type { StoredWallet, TransactionRecord, WalletGeneration } from "./storage.js";
+import { getNetwork, getNetworkNames, getCurrencySymbol } from "./networks.js";
+import { logger } from "./logger.js";
+import { FEE_MODES, isFeeMode } from "./fees.js";
+import type { FeeSettings } from "./fees.js";
+import { findToken } from "./tokens.js";
+import { syncIncomingTransfers, describeSyncCoverage, INITIAL_LOOKBACK_BLOCKS } from "./sync.js";
+import { describeChain } from "./provider.js";
+import { createBackup, readBackup, previewBackup, printBackupPreview, importBackup } from "./backup.js";
+
+export enum ExitCode {
+    OK = 0,
+    ERROR = 1,
+    USAGE = 2,
+    AUTH = 3
+}
+
+export class CliError extends Error {
+    constructor(message: string, public readonly exitCode: ExitCode = ExitCode.ERROR) {
+        super(message);
+        this.name = 'CliError';
+    }
+}
+
+interface ParsedArgs {
+    positionals: string[];
+    options: { [key: string]: string | boolean };
+}
+
+// Flags that never take a value
+const BOOLEAN_FLAGS = new Set(['help', 'version', 'json', 'yes']);
+
+const PASSWORD_ENV = 'ETHERVAULT3_PASSWORD';
+const BACKUP_PASSWORD_ENV = 'ETHERVAULT3_BACKUP_PASSWORD';
+const KEYSTORE_PASSWORD_ENV = 'ETHERVAULT3_KEYSTORE_PASSWORD';
+
+const USAGE = `Usage: ethervault3 [command] [options]
+
+Run without a command to open the interactive menu.
+
+Commands:
+  balance <address> [--network <name>]          Show the ETH balance of any address
+  wallets list                                  List saved wallets and their accounts
+  send --wallet <id|name> --to <address> --amount <eth> [--account <index>]
+       [--fee low|medium|high] | [--max-fee <gwei> --priority-fee <gwei>]
+       | [--fee legacy [--gas-price <gwei>]]
+       [--token <symbol|address>]               Send ETH (or an ERC-20 token) from a saved account
+  history --wallet <id|name> [--account <index>]
+                                                Show recorded transactions
+  sync --wallet <id|name> [--account <index>] [--from-block <n>] [--max-blocks <n>]
+                                                Record incoming transfers (all accounts by default)
+  restore [--generation <n>]                    List saved versions of the wallet file, or restore
+                                                version n (1 = most recent)
+  backup export --file <path>                   Write an encrypted backup of the whole vault
+  backup import --file <path> [--mode merge|replace] [--yes]
+                                                Preview a backup; with --yes, import it
+  keystore import --file <path> --name <name> [--network <name>]
+                                                Save a keystore V3 JSON file as a single-key wallet
+  keystore export --wallet <id|name> --file <path> [--account <index>]
+                                                Write an account's key as keystore V3 JSON
+  watch add --name <name> (--addresses <a,b,...> | --xpub <key> [--count <n>]) [--network <name>]
+                                                Save a watch-only wallet (no keys; can't send)
+  xpub export --wallet <id|name>                Show an HD wallet's m/44'/60'/0' extended public key
+  xpub derive --xpub <key> [--start <n>] [--count <n>] [--address <address>]
+                                                List receive addresses of an xpub, or check that
+                                                an address belongs to it (no master password)
+  help                                          Show this message
+
+Options:
+  --json       Print a single JSON document on stdout; progress goes to stderr
+  --help       Show this message
+  --version    Show the installed version
+
+Commands that read saved wallets take the master password from ${PASSWORD_ENV},
+or prompt for it when a terminal is attached. Backup and keystore files take their
+own password from ${BACKUP_PASSWORD_ENV} and ${KEYSTORE_PASSWORD_ENV} the same way.`;
+
+export function parseArgs(argv: string[]): ParsedArgs {
+    const positionals: string[] = [];
+    const options: { [key: string]: string | boolean } = {};
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i]!;
+        if (!arg.startsWith('--')) {
+            positionals.push(arg);
+            continue;
+        }
+
+        const eq = arg.indexOf('=');
+        if (eq !== -1) {
+            options[arg.slice(2, eq)] = arg.slice(eq + 1);
+            continue;
+        }
+
+        const key = arg.slice(2);
+        const next = argv[i + 1];
+        if (BOOLEAN_FLAGS.has(key) || next === undefined || next.startsWith('--')) {
+            options[key] = true;
+        } else {
+            options[key] = next;
+            i++;
+        }
+    }
+
+    return { positionals, options };
+}
+
+function stringOption(args: ParsedArgs, key: string, required: true): string;
+function stringOption(args: ParsedArgs, key: string, required?: false): string | undefined;
+function stringOption(args: ParsedArgs, key: string, required = false): string | undefined {
+    const value = args.options[key];
+    if (value === undefined) {
+        if (required) {
+            throw new CliError(`Missing required option --${key}`, ExitCode.USAGE);
+        }
+        return undefined;
+    }
+    if (typeof value !== 'string' || value.trim().length === 0) {
+        throw new CliError(`Option --${key} requires a value`, ExitCode.USAGE);
+    }
+    return value.trim();
+}
+
+function parseAccountIndex(args: ParsedArgs, wallet: StoredWallet): number {
+    const raw = stringOption(args, 'account');
+    if (raw === undefined) {
+        return wallet.currentAccountIndex;
+    }
+    const index = parseInt(raw);
+    if (isNaN(index) || String(index) !== raw || index < 0) {
+        throw new CliError(`Invalid account index: ${raw}`, ExitCode.USAGE);
+    }
+    if (index >= wallet.accounts.length) {
+        throw new CliError(`Account ${index} not found in wallet "${wallet.name}" (${wallet.accounts.length} account(s))`);
+    }
+    return index;
+}
+
+function blockOption(args: ParsedArgs, key: string): number | undefined {
+    const raw = stringOption(args, key);
+    if (raw === undefined) {
+        return undefined;
+    }
+    const value = parseInt(raw);
+    if (isNaN(value) || String(value) !== raw || value < 0) {
+        throw new CliError(`Invalid value for --${key}: ${raw}`, ExitCode.USAGE);
+    }
+    return value;
+}
+
+// --fee picks the mode; --max-fee/--priority-fee imply custom and --gas-price implies legacy
+function parseFeeSettings(args: ParsedArgs): FeeSettings {
+    const maxFeePerGas = stringOption(args, 'max-fee');
+    const maxPriorityFeePerGas = stringOption(args, 'priority-fee');
+    const gasPrice = stringOption(args, 'gas-price');
+
+    let mode = stringOption(args, 'fee');
+    if (mode === undefined) {
+        mode = gasPrice !== undefined ? 'legacy' : (maxFeePerGas !== undefined || maxPriorityFeePerGas !== undefined) ? 'custom' : 'medium';
+    }
+    if (!isFeeMode(mode)) {
+        throw new CliError(`Unknown fee mode: ${mode}. Available: ${FEE_MODES.join(', ')}`, ExitCode.USAGE);
+    }
+    if (mode === 'custom' && (maxFeePerGas === undefined || maxPriorityFeePerGas === undefined)) {
+        throw new CliError("Custom fees require both --max-fee and --priority-fee", ExitCode.USAGE);
+    }
+    if (gasPrice !== undefined && mode !== 'legacy') {
+        throw new CliError("--gas-price can only be used with --fee legacy", ExitCode.USAGE);
+    }
+
+    return {
+        mode,
+        ...(mode === 'custom' && { maxFeePerGas: maxFeePerGas!, maxPriorityFeePerGas: maxPriorityFeePerGas! }),
+        ...(gasPrice !== undefined && { gasPrice })
+    };
+}
+
+function resolveNetwork(args: ParsedArgs): string {
+    const network = stringOption(args, 'network') ?? secureStorage.getConfig().defaultNetwork;
+    if (!getNetwork(network)) {
+        throw new CliError(`Unknown network: ${network}. Available: ${getNetworkNames().join(', ')}`, ExitCode.USAGE);
+    }
+    return network;
+}
+
+// Unlock the vault from the environment, falling back to a prompt on a TTY
+async function unlockStorage(): Promise<void> {
+    if (secureStorage.getMasterKey()) {
+        return;
+    }
+
+    let password = process.env[PASSWORD_ENV];
+    if (!password) {
+        if (!process.stdin.isTTY) {
+            throw new CliError(`Master password required. Set ${PASSWORD_ENV} for non-interactive use.`, ExitCode.AUTH);
+        }
+        // Prompt on stderr so stdout only ever carries command output
+        const prompt = inquirer.createPromptModule({ output: process.stderr });
+        const answer = await prompt([
+            {
+                type: "password",
+                name: "password",
+                message: "Enter your master password:",
+                mask: "*"
+            }
+        ]);
+        password = answer.password as string;
+    }
+
+    const isValid = await secureStorage.loadMasterPassword(password);
+    if (!isValid) {
+        throw new CliError("Invalid master password or no vault found. Run ethervault3 without arguments to set one up.", ExitCode.AUTH);
+    }
+}
+
+// Password for a backup or keystore file, from the environment or a prompt on a TTY
+async function filePassword(env: string, label: string, confirm: boolean): Promise<string> {
+    const fromEnv = process.env[env];
+    if (fromEnv) {
+        return fromEnv;
+    }
+    if (!process.stdin.isTTY) {
+        throw new CliError(`${label} password required. Set ${env} for non-interactive use.`, ExitCode.AUTH);
+    }
+    const prompt = inquirer.createPromptModule({ output: process.stderr });
+    const answer = await prompt([
+        {
+            type: "password",
+            name: "password",
+            message: `${label} password:`,
+            mask: "*"
+        },
+        ...(confirm ? [{
+            type: "password" as const,
+            name: "confirmPassword",
+            message: `Confirm ${label.toLowerCase()} password:`,
+            mask: "*"
+        }] : [])
+    ]);
+    if (confirm && answer.password !== answer.confirmPassword) {
+        throw new CliError("Passwords do not match", ExitCode.USAGE);
+    }
+    return answer.password as string;
+}
+
+async function findWallet(args: ParsedArgs): Promise<StoredWallet> {
+    const ref = stringOption(args, 'wallet', true);
+    await unlockStorage();
+
+    const wallets = await secureStorage.loadWallets();
+    const byId = wallets.find(w => w.id === ref);
+    if (byId) {
+        return byId;
+    }
+
+    const byName = wallets.filter(w => w.name === ref);
+    if (byName.length > 1) {
+        throw new CliError(`Wallet name "${ref}" is ambiguous. Use the wallet id instead.`, ExitCode.USAGE);
+    }
+    if (byName.length === 0) {
+        throw new CliError(`Wallet not found: ${ref}`);
+    }
+    return byName[0]!;
+}
+
+interface CommandResult {
+    data: unknown;
+    exitCode: ExitCode;
+    render: () => void; // Human-readable rendering of data
+}
+
+function printTransaction(tx: TransactionRecord, index: number): void {
+    console.log(`${index + 1}. ${tx.type.toUpperCase()} ${formatTransactionAmount(tx)} (${tx.status})`);
+    console.log(`   Hash: ${tx.hash}`);
+    console.log(`   From: ${tx.from}`);
+    console.log(`   To: ${tx.to}`);
+    console.log(`   Network: ${tx.network}, Block: ${tx.blockNumber}`);
+    console.log(`   Date: ${new Date(tx.timestamp).toLocaleString()}`);
+}
+
+// Public view of a stored wallet; encrypted secrets never leave storage
+function walletSummary(wallet: StoredWallet) {
+    return {
+        id: wallet.id,
+        name: wallet.name,
+        type: wallet.type ?? 'hd',
+        ...(wallet.xpub && { xpub: wallet.xpub }),
+        ...(wallet.pathTemplate && { pathTemplate: wallet.pathTemplate }),
+        ...(wallet.wordlist && { wordlist: wallet.wordlist }),
+        ...(isHdWallet(wallet) && { backedUp: wallet.backedUp === true }),
+        network: wallet.network,
+        createdAt: wallet.createdAt,
+        lastUsed: wallet.lastUsed,
+        currentAccountIndex: wallet.currentAccountIndex,
+        accounts: wallet.accounts.map(account => ({
+            index: account.index,
+            address: account.address,
+            ...(account.publicKey !== undefined && { publicKey: account.publicKey }),
+            ...(account.derivationPath !== undefined && { derivationPath: account.derivationPath }),
+            ...(account.balance !== undefined && { balance: account.balance }),
+            ...(account.txCount !== undefined && { txCount: account.txCount })
+        }))
+    };
+}
+
+async function balanceCommand(args: ParsedArgs): Promise<CommandResult> {
+    const address = args.positionals[1];
+    if (!address) {
+        throw new CliError("Missing address. Usage: ethervault3 balance <address> [--network <name>]", ExitCode.USAGE);
+    }
+    const network = resolveNetwork(args);
+
+    let balance: string;
+    try {
+        balance = await getAddressBalance(address, network);
+    } catch (error: any) {
+        if (error?.code === 'INVALID_ARGUMENT') {
+            throw new CliError(`Invalid address: ${address}`, ExitCode.USAGE);
+        }
+        throw error;
+    }
+
+    const unit = getCurrencySymbol(network);
+    return {
+        data: { address, network, balance, unit },
+        exitCode: ExitCode.OK,
+        render: () => {
+            console.log(`Address: ${address}`);
+            console.log(`Network: ${network}`);
+            console.log(`Balance: ${balance} ${unit}`);
+        }
+    };
+}
+
+async function walletsCommand(args: ParsedArgs): Promise<CommandResult> {
+    const sub = args.positionals[1] ?? 'list';
+    if (sub !== 'list') {
+        throw new CliError(`Unknown wallets subcommand: ${sub}`, ExitCode.USAGE);
+    }
+
+    await unlockStorage();
+    const wallets = await secureStorage.loadWallets();
+
+    return {
+        data: { wallets: wallets.map(walletSummary) },
+        exitCode: ExitCode.OK,
+        render: () => {
+            if (wallets.length === 0) {
+                console.log("No saved wallets found.");
+                return;
+            }
+            wallets.forEach(wallet => {
+                const watchOnly = isWatchOnly(wallet) ? ' [watch-only]' : '';
+                const backup = needsBackup(wallet) ? chalk.yellow(' [mnemonic backup not verified]') : '';
+                console.log(chalk.white(`${wallet.name} (${wallet.id}) - ${wallet.network}${watchOnly}`) + backup);
+                wallet.accounts.forEach((account, index) => {
+                    const marker = index === wallet.currentAccountIndex ? '→' : ' ';
+                    console.log(`  ${marker} Account ${index}: ${account.address}`);
+                });
+            });
+        }
+    };
+}
+
+async function sendCommand(args: ParsedArgs): Promise<CommandResult> {
+    const to = stringOption(args, 'to', true);
+    const amount = stringOption(args, 'amount', true);
+    const fees = parseFeeSettings(args);
+    const wallet = await findWallet(args);
+    const accountIndex = parseAccountIndex(args, wallet);
+
+    const tokenRef = stringOption(args, 'token');
+    let prepared;
+    if (tokenRef !== undefined) {
+        const token = findToken(wallet.network, tokenRef);
+        if (!token) {
+            throw new CliError(`Unknown token on ${wallet.network}: ${tokenRef}`, ExitCode.USAGE);
+        }
+        prepared = await prepareTokenTransfer(wallet, accountIndex, token, { to, amount, fees });
+    } else {
+        prepared = await prepareAccountTransfer(wallet, accountIndex, { to, amount, fees });
+    }
+    const record = await executeAccountTransfer(wallet, accountIndex, prepared);
+
+    return {
+        data: { transaction: record, chain: prepared.chain },
+        exitCode: record.status === 'confirmed' ? ExitCode.OK : ExitCode.ERROR,
+        render: () => {
+            console.log(`Chain: ${describeChain(prepared.chain)}`);
+            console.log(`Hash: ${record.hash}`);
+            console.log(`Block: ${record.blockNumber}`);
+            console.log(`Status: ${record.status}`);
+        }
+    };
+}
+
+async function historyCommand(args: ParsedArgs): Promise<CommandResult> {
+    const wallet = await findWallet(args);
+
+    let transactions: TransactionRecord[];
+    if (args.options['account'] !== undefined) {
+        transactions = await loadAccountTransactions(wallet, parseAccountIndex(args, wallet));
+    } else {
+        transactions = (await secureStorage.loadTransactions(wallet.id))
+            .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+    }
+
+    return {
+        data: { walletId: wallet.id, transactions },
+        exitCode: ExitCode.OK,
+        render: () => {
+            if (transactions.length === 0) {
+                console.log("No transaction history found.");
+                return;
+            }
+            transactions.forEach(printTransaction);
+        }
+    };
+}
+
+async function syncCommand(args: ParsedArgs): Promise<CommandResult> {
+    const fromBlock = blockOption(args, 'from-block');
+    const maxBlocks = blockOption(args, 'max-blocks');
+    if (maxBlocks === 0) {
+        throw new CliError("--max-blocks must be greater than 0", ExitCode.USAGE);
+    }
+    const wallet = await findWallet(args);
+    const accountIndices = args.options['account'] !== undefined
+        ? [parseAccountIndex(args, wallet)]
+        : wallet.accounts.map((_, index) => index);
+    const firstSync = fromBlock === undefined && accountIndices.some(index => wallet.accounts[index]?.lastSyncedBlock === undefined);
+
+    const result = await syncIncomingTransfers(wallet, accountIndices, {
+        ...(fromBlock !== undefined && { fromBlock }),
+        ...(maxBlocks !== undefined && { maxBlocks })
+    });
+
+    return {
+        data: { walletId: wallet.id, ...result },
+        exitCode: ExitCode.OK,
+        render: () => {
+            if (result.fromBlock > result.toBlock) {
+                console.log(`Already up to date at block ${result.latest}.`);
+                return;
+            }
+            console.log(`Scanned blocks ${result.fromBlock} to ${result.toBlock} (chain head ${result.latest})`);
+            if (firstSync) {
+                console.log(`First sync looks back ${INITIAL_LOOKBACK_BLOCKS} blocks; use --from-block to import older transfers.`);
+            }
+            if (result.received.length === 0) {
+                console.log("No new incoming transfers found.");
+            } else {
+                result.received.forEach(printTransaction);
+            }
+            describeSyncCoverage(result).forEach(note => console.log(note));
+            if (result.toBlock < result.latest) {
+                console.log(`${result.latest - result.toBlock} block(s) remain. Run sync again to continue.`);
+            }
+        }
+    };
+}
+
+function generationSummary(generation: WalletGeneration, index: number) {
+    return {
+        number: index + 1,
+        id: generation.id,
+        savedAt: generation.savedAt.toISOString(),
+        size: generation.size,
+        wallets: generation.wallets
+    };
+}
+
+async function restoreCommand(args: ParsedArgs): Promise<CommandResult> {
+    const number = blockOption(args, 'generation');
+    await unlockStorage();
+    const generations = await secureStorage.listWalletGenerations();
+
+    if (number === undefined) {
+        return {
+            data: { generations: generations.map(generationSummary) },
+            exitCode: ExitCode.OK,
+            render: () => {
+                if (generations.length === 0) {
+                    console.log("No previous wallet file versions saved.");
+                    return;
+                }
+                generations.forEach((generation, index) => {
+                    const contents = generation.wallets === null ? 'unreadable with the current password' : `${generation.wallets} wallet(s)`;
+                    console.log(`${index + 1}. ${generation.savedAt.toLocaleString()} - ${contents} (${generation.id})`);
+                });
+                console.log('Restore one with: ethervault3 restore --generation <n>');
+            }
+        };
+    }
+
+    const generation = generations[number - 1];
+    if (!generation) {
+        throw new CliError(`No wallet file version ${number}; ${generations.length} saved`, ExitCode.USAGE);
+    }
+    const wallets = await secureStorage.restoreWalletGeneration(generation.id);
+
+    return {
+        data: { restored: generationSummary(generation, number - 1), wallets: wallets.map(walletSummary) },
+        exitCode: ExitCode.OK,
+        render: () => {
+            console.log(`Restored ${wallets.length} wallet(s) saved at ${generation.savedAt.toLocaleString()}.`);
+            console.log('The replaced wallet file was kept as the newest version.');
+        }
+    };
+}
+
+async function backupCommand(args: ParsedArgs): Promise<CommandResult> {
+    const sub = args.positionals[1];
+    if (sub !== 'export' && sub !== 'import') {
+        throw new CliError(`Unknown backup subcommand: ${sub ?? '(none)'}. Use export or import.`, ExitCode.USAGE);
+    }
+    const file = stringOption(args, 'file', true);
+
+    if (sub === 'export') {
+        await unlockStorage();
+        const password = await filePassword(BACKUP_PASSWORD_ENV, 'Backup', true);
+        if (password.length < 8) {
+            throw new CliError("Backup password must be at least 8 characters long", ExitCode.USAGE);
+        }
+        let contents;
+        try {
+            contents = await createBackup(file, password);
+        } catch (error: any) {
+            if (error?.code === 'EEXIST') {
+                throw new CliError(`File already exists: ${file}`);
+            }
+            throw error;
+        }
+        return {
+            data: { file, createdAt: contents.createdAt, wallets: contents.wallets.length, transactions: contents.transactions.length },
+            exitCode: ExitCode.OK,
+            render: () => {
+                console.log(`Backup saved to ${file}`);
+                console.log(`${contents.wallets.length} wallet(s), ${contents.transactions.length} transaction(s)`);
+            }
+        };
+    }
+
+    const mode = stringOption(args, 'mode') ?? 'merge';
+    if (mode !== 'merge' && mode !== 'replace') {
+        throw new CliError(`Invalid import mode: ${mode}. Use merge or replace.`, ExitCode.USAGE);
+    }
+    await unlockStorage();
+    const contents = readBackup(file, await filePassword(BACKUP_PASSWORD_ENV, 'Backup', false));
+    const preview = await previewBackup(contents);
+
+    if (!args.options['yes']) {
+        return {
+            data: { file, mode, imported: false, preview },
+            exitCode: ExitCode.OK,
+            render: () => {
+                printBackupPreview(preview);
+                console.log(`\nNothing imported yet. Run again with --yes to ${mode === 'replace' ? 'replace this vault with' : 'merge'} the backup.`);
+            }
+        };
+    }
+
+    const result = await importBackup(contents, mode);
+    return {
+        data: { file, imported: true, preview, ...result },
+        exitCode: ExitCode.OK,
+        render: () => {
+            console.log(`Backup imported (${mode}): ${result.walletsAdded} wallet(s), ${result.transactionsAdded} transaction(s) added.`);
+            if (result.walletsSkipped > 0) {
+                console.log(`${result.walletsSkipped} wallet(s) were already in this vault, or share an address with a wallet in it, and were skipped.`);
+            }
+        }
+    };
+}
+
+async function keystoreCommand(args: ParsedArgs): Promise<CommandResult> {
+    const sub = args.positionals[1];
+    if (sub !== 'import' && sub !== 'export') {
+        throw new CliError(`Unknown keystore subcommand: ${sub ?? '(none)'}. Use import or export.`, ExitCode.USAGE);
+    }
+    const file = stringOption(args, 'file', true);
+
+    if (sub === 'import') {
+        const name = stringOption(args, 'name', true);
+        const network = resolveNetwork(args);
+        if (!fs.existsSync(file)) {
+            throw new CliError(`Keystore file not found: ${file}`, ExitCode.USAGE);
+        }
+        await unlockStorage();
+        const password = await filePassword(KEYSTORE_PASSWORD_ENV, 'Keystore', false);
+        const key = await decryptKeystore(fs.readFileSync(file, 'utf8'), password);
+        const walletId = await saveImportedKeys([key], name, network);
+        return {
+            data: { walletId, name, network, address: key.address },
+            exitCode: ExitCode.OK,
+            render: () => {
+                console.log(`Saved wallet "${name}" (${walletId}) on ${network}`);
+                console.log(`Address: ${key.address}`);
+            }
+        };
+    }
+
+    const wallet = await findWallet(args);
+    const accountIndex = parseAccountIndex(args, wallet);
+    if (isWatchOnly(wallet)) {
+        throw new CliError(`"${wallet.name}" is a watch-only wallet and holds no private keys`);
+    }
+    if (fs.existsSync(file)) {
+        throw new CliError(`File already exists: ${file}`);
+    }
+    const password = await filePassword(KEYSTORE_PASSWORD_ENV, 'Keystore', true);
+    if (password.length < 8) {
+        throw new CliError("Keystore password must be at least 8 characters long", ExitCode.USAGE);
+    }
+    const json = await encryptAccountKeystore(wallet, accountIndex, password);
+    fs.writeFileSync(file, json, { mode: 0o600, flag: 'wx' });
+    const address = wallet.accounts[accountIndex]!.address;
+    return {
+        data: { walletId: wallet.id, accountIndex, address, file },
+        exitCode: ExitCode.OK,
+        render: () => {
+            console.log(`Keystore for ${address} saved to ${file}`);
+        }
+    };
+}
+
+function countOption(args: ParsedArgs, key: string, fallback: number, min: number, max: number): number {
+    const raw = stringOption(args, key) ?? String(fallback);
+    const value = parseInt(raw);
+    if (isNaN(value) || String(value) !== raw || value < min || value > max) {
+        throw new CliError(`Invalid --${key}: ${raw} (${min}-${max})`, ExitCode.USAGE);
+    }
+    return value;
+}
+
+async function watchCommand(args: ParsedArgs): Promise<CommandResult> {
+    const sub = args.positionals[1];
+    if (sub !== 'add') {
+        throw new CliError(`Unknown watch subcommand: ${sub ?? '(none)'}. Use add.`, ExitCode.USAGE);
+    }
+    const name = stringOption(args, 'name', true);
+    const network = resolveNetwork(args);
+    const addresses = stringOption(args, 'addresses');
+    const xpub = stringOption(args, 'xpub');
+    if ((addresses === undefined) === (xpub === undefined)) {
+        throw new CliError("Give either --addresses or --xpub", ExitCode.USAGE);
+    }
+
+    let source: WatchSource;
+    try {
+        if (xpub !== undefined) {
+            const count = countOption(args, 'count', 5, 1, 100);
+            parseXpub(xpub);
+            source = { xpub, count };
+        } else {
+            source = { addresses: parseWatchAddresses(addresses!) };
+        }
+    } catch (error: any) {
+        throw error instanceof CliError ? error : new CliError(error.message, ExitCode.USAGE);
+    }
+
+    await unlockStorage();
+    const walletId = await saveWatchWallet(source, name, network);
+    const wallet = (await secureStorage.getWallet(walletId))!;
+    return {
+        data: walletSummary(wallet),
+        exitCode: ExitCode.OK,
+        render: () => {
+            console.log(`Saved watch-only wallet "${name}" (${walletId}) on ${network}`);
+            wallet.accounts.forEach(account => console.log(`  Account ${account.index}: ${account.address}`));
+        }
+    };
+}
+
+async function xpubCommand(args: ParsedArgs): Promise<CommandResult> {
+    const sub = args.positionals[1];
+    if (sub !== 'export' && sub !== 'derive') {
+        throw new CliError(`Unknown xpub subcommand: ${sub ?? '(none)'}. Use export or derive.`, ExitCode.USAGE);
+    }
+
+    if (sub === 'export') {
+        // Unlocking with the master password is the confirmation
+        const wallet = await findWallet(args);
+        const xpub = await walletXpub(wallet);
+        return {
+            data: { walletId: wallet.id, path: ACCOUNT_XPUB_PATH, xpub },
+            exitCode: ExitCode.OK,
+            render: () => {
+                console.log(`Extended public key of "${wallet.name}" (${ACCOUNT_XPUB_PATH}):`);
+                console.log(xpub);
+            }
+        };
+    }
+
+    // Works from the xpub alone; the vault stays locked
+    const xpub = stringOption(args, 'xpub', true);
+    try {
+        parseXpub(xpub);
+    } catch (error: any) {
+        throw new CliError(error.message, ExitCode.USAGE);
+    }
+
+    const address = stringOption(args, 'address');
+    if (address !== undefined) {
+        if (!ethers.isAddress(address)) {
+            throw new CliError(`Invalid address: ${address}`, ExitCode.USAGE);
+        }
+        const limit = countOption(args, 'count', 100, 1, 10000);
+        const index = findXpubAddress(xpub, address, limit);
+        return {
+            data: { address: ethers.getAddress(address), found: index !== null, path: index !== null ? `0/${index}` : null, searched: limit },
+            exitCode: index !== null ? ExitCode.OK : ExitCode.ERROR,
+            render: () => {
+                if (index !== null) {
+                    console.log(`✅ ${ethers.getAddress(address)} is receive address 0/${index} of this xpub`);
+                } else {
+                    console.log(`❌ ${ethers.getAddress(address)} is not among the first ${limit} receive addresses of this xpub`);
+                }
+            }
+        };
+    }
+
+    const start = countOption(args, 'start', 0, 0, 1000000);
+    const accounts = deriveXpubAccounts(xpub, start, countOption(args, 'count', 5, 1, 1000));
+    const addresses = accounts.map((account, offset) => ({ path: `0/${start + offset}`, address: account.address }));
+    return {
+        data: { addresses },
+        exitCode: ExitCode.OK,
+        render: () => {
+            addresses.forEach(entry => console.log(`${entry.path}: ${entry.address}`));
+        }
+    };
+}
+
+async function dispatch(args: ParsedArgs, command: string): Promise<CommandResult> {
+    switch (command) {
+        case 'balance':
+            return balanceCommand(args);
+        case 'wallets':
+            return walletsCommand(args);
+        case 'send':
+            return sendCommand(args);
+        case 'history':
+            return historyCommand(args);
+        case 'sync':
+            return syncCommand(args);
+        case 'restore':
+            return restoreCommand(args);
+        case 'backup':
+            return backupCommand(args);
+        case 'keystore':
+            return keystoreCommand(args);
+        case 'watch':
+            return watchCommand(args);
+        case 'xpub':
+            return xpubCommand(args);
+        default:
+            throw new CliError(`Unknown command: ${command}. Run "ethervault3 help" for usage.`, ExitCode.USAGE);
+    }
+}
+
+// In JSON mode stdout carries exactly one document: { ok, command, result } or { ok, command, error }
+function printJson(document: object): void {
+    process.stdout.write(JSON.stringify(document, null, 2) + '\n');
+}
+
+export async function runCli(argv: string[], version: string): Promise<ExitCode> {
+    const json = argv.includes('--json');
+    if (json) {
+        logger.setUseStderr(true);
+    }
+
+    let command: string | undefined;
+    try {
+        const args = parseArgs(argv);
+        command = args.positionals[0];
+
+        if (args.options['version']) {
+            if (json) {
+                printJson({ ok: true, command: 'version', result: { version: version || null } });
+            } else {
+                console.log(version || 'unknown');
+            }
+            return ExitCode.OK;
+        }
+        if (args.options['help'] || command === undefined || command === 'help') {
+            if (json) {
+                printJson({ ok: true, command: 'help', result: { usage: USAGE } });
+            } else {
+                console.log(USAGE);
+            }
+            return ExitCode.OK;
+        }
+
+        const result = await dispatch(args, command);
+        if (json) {
+            printJson({ ok: result.exitCode === ExitCode.OK, command, result: result.data });
+        } else {
+            result.render();
+        }
+        return result.exitCode;
+    } catch (error: any) {
+        let message: string;
+        let exitCode: ExitCode;
+        if (error instanceof CliError) {
+            message = error.message;
+            exitCode = error.exitCode;
+        } else if (error && (error.name === 'ExitPromptError' || error.code === 'SIGINT')) {
+            message = 'Operation cancelled by user.';
+            exitCode = ExitCode.ERROR;
+        } else {
+            message = error?.shortMessage || error?.message || String(error);
+            exitCode = ExitCode.ERROR;
+        }
+
+        if (json) {
+            printJson({ ok: false, command: command ?? null, error: { message, exitCode } });
+        } else {
+            console.error(chalk.red(`❌ ${message}`));
+        }
+        return exitCode;
+    }
+}
@@ -0,0 +1,136 @@
+/**
+ * HD account discovery for EtherVault3 CLI
+ * Checks derived addresses in batches, on one or more networks, until a run of unused accounts
+ */
+
+import { ethers, HDNodeWallet } from "ethers";
+import { getProvider } from "./provider.js";
+import { secureStorage } from "./storage.js";
+import { derivationPath } from "./paths.js";
+import { log, LogCategory } from "./logger.js";
+
+export interface DiscoveryOptions {
+    gapLimit: number; // Consecutive unused accounts that end the scan
+    maxAccounts: number; // Account indexes checked at most
+    batchSize: number; // Accounts checked per JSON-RPC batch (two calls each)
+}
+
+export const DEFAULT_DISCOVERY_OPTIONS: DiscoveryOptions = {
+    gapLimit: 3,
+    maxAccounts: 20,
+    batchSize: 10
+};
+
+// Keeps a batch at or below 100 calls, the limit of most public RPCs
+export const MAX_DISCOVERY_BATCH = 50;
+
+export interface NetworkActivity {
+    balance: string; // ETH
+    txCount: number; // Nonce, i.e. transactions sent
+}
+
+export interface DiscoveredAccount {
+    index: number;
+    wallet: HDNodeWallet;
+    balance: string; // On the first network scanned, which the wallet is saved on
+    txCount: number;
+    activity: { [network: string]: NetworkActivity };
+}
+
+export interface DiscoveryResult {
+    accounts: DiscoveredAccount[];
+    checked: number; // Account indexes looked at
+    failedNetworks: string[]; // Networks dropped after their RPC failed
+}
+
+export type DiscoveryProgress = (index: number, address: string, activity: { [network: string]: NetworkActivity }) => void;
+
+export function getDiscoveryOptions(): DiscoveryOptions {
+    return { ...DEFAULT_DISCOVERY_OPTIONS, ...secureStorage.getConfig().discovery };
+}
+
+// Balance and nonce of every address, in a single batch request
+export async function fetchActivity(network: string, addresses: string[]): Promise<NetworkActivity[]> {
+    const results = await getProvider(network).batch(addresses.flatMap(address => [
+        { method: "eth_getBalance", params: [address, "latest"] },
+        { method: "eth_getTransactionCount", params: [address, "latest"] }
+    ]));
+    return addresses.map((_, i) => ({
+        balance: ethers.formatEther(BigInt(results[i * 2])),
+        txCount: Number(BigInt(results[i * 2 + 1]))
+    }));
+}
+
+function isActive(activity: NetworkActivity): boolean {
+    return activity.txCount > 0 || parseFloat(activity.balance) > 0;
+}
+
+// An account counts as used if it has a balance or a nonce on any of the networks
+export async function discoverAccounts(
+    mnemonic: ethers.Mnemonic,
+    pathTemplate: string,
+    networks: string[],
+    options: DiscoveryOptions = getDiscoveryOptions(),
+    onChecked?: DiscoveryProgress
+): Promise<DiscoveryResult> {
+    if (networks.length === 0) {
+        throw new Error("No networks selected for account discovery");
+    }
+
+    // Seed derivation is the slow part; do it once and derive every path from the root
+    const root = HDNodeWallet.fromMnemonic(mnemonic, "m");
+    const primary = networks[0]!;
+    let scanning = [...networks];
+    const failedNetworks: string[] = [];
+    const accounts: DiscoveredAccount[] = [];
+    let emptyRun = 0;
+    let index = 0;
+    let checked = 0;
+
+    while (index < options.maxAccounts && emptyRun < options.gapLimit) {
+        const count = Math.min(options.batchSize, options.maxAccounts - index);
+        const wallets = Array.from({ length: count }, (_, offset) => root.derivePath(derivationPath(pathTemplate, index + offset)));
+        const addresses = wallets.map(wallet => wallet.address);
+
+        const settled = await Promise.allSettled(scanning.map(network => fetchActivity(network, addresses)));
+        const byNetwork: { [network: string]: NetworkActivity[] } = {};
+        settled.forEach((outcome, position) => {
+            const network = scanning[position]!;
+            if (outcome.status === 'fulfilled') {
+                byNetwork[network] = outcome.value;
+            } else {
+                log.warn(LogCategory.NETWORK, `Account discovery on ${network} failed, skipping it: ${outcome.reason?.message ?? outcome.reason}`);
+                failedNetworks.push(network);
+            }
+        });
+        scanning = scanning.filter(network => byNetwork[network]);
+        if (scanning.length === 0) {
+            throw new Error(`Account discovery failed on every network (${failedNetworks.join(', ')})`);
+        }
+
+        for (let offset = 0; offset < count && emptyRun < options.gapLimit; offset++) {
+            const activity: { [network: string]: NetworkActivity } = {};
+            for (const network of scanning) {
+                activity[network] = byNetwork[network]![offset]!;
+            }
+            checked++;
+            onChecked?.(index + offset, addresses[offset]!, activity);
+
+            if (Object.values(activity).some(isActive)) {
+                accounts.push({
+                    index: index + offset,
+                    wallet: wallets[offset]!,
+                    balance: activity[primary]?.balance ?? "0.0",
+                    txCount: activity[primary]?.txCount ?? 0,
+                    activity
+                });
+                emptyRun = 0;
+            } else {
+                emptyRun++;
+            }
+        }
+        index += count;
+    }
+
+    return { accounts, checked, failedNetworks };
+}
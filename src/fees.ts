@@ -0,0 +1,182 @@
+/**
+ * Transaction fee selection for EtherVault3 CLI
+ * EIP-1559 (type 2) presets and custom values, with legacy gasPrice as an explicit opt-in
+ */
+
+import { ethers } from "ethers";
+import inquirer from "inquirer";
+
+export type FeeMode = 'low' | 'medium' | 'high' | 'custom' | 'legacy';
+
+export const FEE_MODES: FeeMode[] = ['low', 'medium', 'high', 'custom', 'legacy'];
+
+// What the user asked for; Gwei values are kept as entered
+export interface FeeSettings {
+    mode: FeeMode;
+    maxFeePerGas?: string; // Gwei, custom mode only
+    maxPriorityFeePerGas?: string; // Gwei, custom mode only
+    gasPrice?: string; // Gwei, legacy mode only (automatic when empty)
+}
+
+// Concrete wei values ready to go into a transaction request
+export interface ResolvedFees {
+    mode: FeeMode;
+    type: 0 | 2;
+    gasPrice?: bigint;
+    maxFeePerGas?: bigint;
+    maxPriorityFeePerGas?: bigint;
+}
+
+// Preset tuning: priority fee multiplier and base fee headroom, both in percent
+const PRESETS: { [mode in 'low' | 'medium' | 'high']: { priority: bigint; baseFee: bigint } } = {
+    low: { priority: 50n, baseFee: 125n },
+    medium: { priority: 100n, baseFee: 200n },
+    high: { priority: 200n, baseFee: 300n }
+};
+
+const DEFAULT_PRIORITY_FEE = ethers.parseUnits("1", "gwei");
+
+export function isFeeMode(value: string): value is FeeMode {
+    return (FEE_MODES as string[]).includes(value);
+}
+
+function parseGwei(value: string, label: string): bigint {
+    const amount = parseFloat(value);
+    if (isNaN(amount) || amount <= 0) {
+        throw new Error(`Invalid ${label}: ${value}`);
+    }
+    return ethers.parseUnits(value.trim(), "gwei");
+}
+
+export async function resolveFees(provider: ethers.Provider, settings: FeeSettings): Promise<ResolvedFees> {
+    if (settings.mode === 'legacy') {
+        if (settings.gasPrice && settings.gasPrice.trim() !== "") {
+            return { mode: 'legacy', type: 0, gasPrice: parseGwei(settings.gasPrice, 'gas price') };
+        }
+        const feeData = await provider.getFeeData();
+        if (feeData.gasPrice === null) {
+            throw new Error("Network did not return a gas price. Enter one manually.");
+        }
+        return { mode: 'legacy', type: 0, gasPrice: feeData.gasPrice };
+    }
+
+    if (settings.mode === 'custom') {
+        if (!settings.maxFeePerGas || !settings.maxPriorityFeePerGas) {
+            throw new Error("Custom fees require both max fee and priority fee");
+        }
+        const maxFeePerGas = parseGwei(settings.maxFeePerGas, 'max fee');
+        const maxPriorityFeePerGas = parseGwei(settings.maxPriorityFeePerGas, 'priority fee');
+        if (maxPriorityFeePerGas > maxFeePerGas) {
+            throw new Error("Invalid priority fee: cannot exceed max fee");
+        }
+        return { mode: 'custom', type: 2, maxFeePerGas, maxPriorityFeePerGas };
+    }
+
+    const block = await provider.getBlock('latest');
+    const baseFee = block?.baseFeePerGas;
+    if (baseFee === null || baseFee === undefined) {
+        throw new Error("Network does not support EIP-1559 fees. Use legacy gas pricing instead.");
+    }
+    const feeData = await provider.getFeeData();
+    const suggestedPriority = feeData.maxPriorityFeePerGas ?? DEFAULT_PRIORITY_FEE;
+
+    const preset = PRESETS[settings.mode];
+    const maxPriorityFeePerGas = (suggestedPriority * preset.priority) / 100n;
+    const maxFeePerGas = (baseFee * preset.baseFee) / 100n + maxPriorityFeePerGas;
+
+    return { mode: settings.mode, type: 2, maxFeePerGas, maxPriorityFeePerGas };
+}
+
+// Fee fields for an ethers TransactionRequest
+export function feeRequestFields(fees: ResolvedFees): Pick<ethers.TransactionRequest, 'type' | 'gasPrice' | 'maxFeePerGas' | 'maxPriorityFeePerGas'> {
+    if (fees.type === 0) {
+        return { type: 0, gasPrice: fees.gasPrice! };
+    }
+    return { type: 2, maxFeePerGas: fees.maxFeePerGas!, maxPriorityFeePerGas: fees.maxPriorityFeePerGas! };
+}
+
+// Fee fields persisted on a TransactionRecord (wei as decimal strings)
+export function feeRecordFields(fees: ResolvedFees) {
+    return {
+        txType: fees.type,
+        feeMode: fees.mode,
+        ...(fees.maxFeePerGas !== undefined && { maxFeePerGas: fees.maxFeePerGas.toString() }),
+        ...(fees.maxPriorityFeePerGas !== undefined && { maxPriorityFeePerGas: fees.maxPriorityFeePerGas.toString() })
+    };
+}
+
+// Worst-case price per unit of gas, used for balance checks and cost summaries
+export function maxPricePerGas(fees: ResolvedFees): bigint {
+    return fees.type === 0 ? fees.gasPrice! : fees.maxFeePerGas!;
+}
+
+export function describeFees(fees: ResolvedFees): string {
+    if (fees.type === 0) {
+        return `Legacy gas price: ${ethers.formatUnits(fees.gasPrice!, "gwei")} Gwei`;
+    }
+    return `EIP-1559 (${fees.mode}): max fee ${ethers.formatUnits(fees.maxFeePerGas!, "gwei")} Gwei, ` +
+        `priority fee ${ethers.formatUnits(fees.maxPriorityFeePerGas!, "gwei")} Gwei`;
+}
+
+function validateGweiInput(allowEmpty: boolean) {
+    return (input: string) => {
+        if (allowEmpty && (!input || input.trim() === "")) {
+            return true;
+        }
+        const value = parseFloat(input);
+        if (isNaN(value) || value <= 0) {
+            return "Please enter a valid value greater than 0. (or press Ctrl+C to exit)";
+        }
+        return true;
+    };
+}
+
+export async function promptFeeSettings(): Promise<FeeSettings> {
+    const { mode } = await inquirer.prompt([
+        {
+            type: "list",
+            name: "mode",
+            message: "Select transaction fee:",
+            default: "medium",
+            choices: [
+                { name: "🐢 Low (EIP-1559)", value: "low" },
+                { name: "🚗 Medium (EIP-1559)", value: "medium" },
+                { name: "🚀 High (EIP-1559)", value: "high" },
+                { name: "✏️  Custom max fee / priority fee (EIP-1559)", value: "custom" },
+                { name: "🏛️  Legacy gas price (for chains without EIP-1559)", value: "legacy" }
+            ]
+        }
+    ]);
+
+    if (mode === 'custom') {
+        const answers = await inquirer.prompt([
+            {
+                type: "input",
+                name: "maxFeePerGas",
+                message: "Enter max fee per gas in Gwei:",
+                validate: validateGweiInput(false)
+            },
+            {
+                type: "input",
+                name: "maxPriorityFeePerGas",
+                message: "Enter max priority fee per gas in Gwei:",
+                validate: validateGweiInput(false)
+            }
+        ]);
+        return { mode, maxFeePerGas: answers.maxFeePerGas, maxPriorityFeePerGas: answers.maxPriorityFeePerGas };
+    }
+
+    if (mode === 'legacy') {
+        const answers = await inquirer.prompt([
+            {
+                type: "input",
+                name: "gasPrice",
+                message: "Enter gas price in Gwei (leave empty for automatic):",
+                validate: validateGweiInput(true)
+            }
+        ]);
+        return { mode, gasPrice: answers.gasPrice };
+    }
+
+    return { mode };
+}
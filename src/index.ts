@@ -1,9 +1,20 @@
 #!/usr/bin/env node
 import inquirer from "inquirer";
 import chalk from "chalk";
-import { createWallet, importWallet, checkBalance, sendTransaction, showTransactionHistory, manageWallets, checkAccountBalance, sendAccountTransaction, getAccountTransactionHistory, getAccountSecrets, airdropTokens } from "./wallet.js";
-import { secureStorage } from "./storage.js";
+import { createWallet, importWallet, checkBalance, sendTransaction, showTransactionHistory, manageWallets, checkAccountBalance, sendAccountTransaction, sendTokenTransaction, addTokenToRegistry, manageAccountNfts, getAccountTransactionHistory, syncAccountTransfers, getAccountSecrets, airdropTokens, importKeystore, importPrivateKeys, addPrivateKeysToWallet, importWatchWallet, addWatchAddresses, exportWatchWallet, exportWalletXpub, verifyWalletBackup, exportMnemonicShares, importShamirShares, promptPathTemplate, exportAccountKeystore } from "./wallet.js";
+import { DEFAULT_PATH_TEMPLATE, derivationPath as derivePath, describePathTemplate, nextPathIndex } from "./paths.js";
+import { mnemonicFromPhrase, describeWordlist } from "./mnemonic.js";
+import { secureStorage, isHdWallet, isWatchOnly, needsBackup } from "./storage.js";
 import { log, LogCategory } from "./logger.js";
+import { runCli } from "./cli.js";
+import { getNetworks, getNetworkNames, getCustomNetworks, getNetwork, isBuiltinNetwork, saveCustomNetwork, removeCustomNetwork, getRpcUrls } from "./networks.js";
+import type { NetworkConfig } from "./networks.js";
+import { checkEndpoints } from "./provider.js";
+import type { EndpointHealth } from "./provider.js";
+import { KDF_PRESETS, describeKdf, sameKdf } from "./kdf.js";
+import { createBackup, readBackup, previewBackup, printBackupPreview, importBackup } from "./backup.js";
+import type { ImportMode } from "./backup.js";
+import { getDiscoveryOptions, MAX_DISCOVERY_BATCH } from "./discovery.js";
 import * as fs from 'fs';
 import * as path from 'path';
 import { HDNodeWallet, ethers } from "ethers";
@@ -41,6 +52,8 @@ function handleError(error: any, context: string): void {
     if (error.message) {
         if (error.message.includes('Master password not set')) {
             userMessage = "Authentication required. Please enter your master password.";
+        } else if (error.message.includes("can't be read and may be damaged")) {
+            userMessage = error.message;
         } else if (error.message.includes('Decryption failed')) {
             userMessage = "Invalid master password. Please check your password and try again.";
         } else if (error.message.includes('Invalid master password')) {
@@ -381,7 +394,7 @@ async function displayMainMenu(): Promise<string> {
         console.log(chalk.white("│                            Available Options                                │"));
         console.log(chalk.white("├─────────────────────────────────────────────────────────────────────────────┤"));
         console.log(chalk.white("│ 1. 🆕 Create New Wallet                                                    │"));
-        console.log(chalk.white("│ 2. 📥 Import Wallet from Mnemonic                                          │"));
+        console.log(chalk.white("│ 2. 📥 Import Wallet                                                        │"));
         console.log(chalk.white("│ 3. 🗂️  Manage Wallet                                                        │"));
         console.log(chalk.white("│ 4. 💰 Check Balance                                                        │"));
         console.log(chalk.white("│ 5. 📤 Send Transaction                                                     │"));
@@ -413,6 +426,42 @@ async function displayMainMenu(): Promise<string> {
     }
 }
 
+async function importWalletMenu(): Promise<void> {
+    const answer = await inquirer.prompt([
+        {
+            type: "list",
+            name: "source",
+            message: "Import from:",
+            choices: [
+                { name: "🔤 Mnemonic Phrase", value: "mnemonic" },
+                { name: "🧩 Shamir Shares (M of N)", value: "shares" },
+                { name: "🔑 Private Key(s)", value: "keys" },
+                { name: "🔐 Keystore File (JSON)", value: "keystore" },
+                { name: "👁️  Watch-Only (Addresses or xpub)", value: "watch" },
+                { name: "🔙 Back to Main Menu", value: "back" }
+            ]
+        }
+    ]);
+
+    switch (answer.source) {
+        case "mnemonic":
+            await importWallet();
+            break;
+        case "shares":
+            await importShamirShares();
+            break;
+        case "keys":
+            await importPrivateKeys();
+            break;
+        case "keystore":
+            await importKeystore();
+            break;
+        case "watch":
+            await importWatchWallet();
+            break;
+    }
+}
+
 async function manageWalletMenu(): Promise<void> {
     try {
         // Double-check authentication before proceeding
@@ -430,14 +479,23 @@ async function manageWalletMenu(): Promise<void> {
             return;
         }
 
+        // Repeated on every visit until each mnemonic backup is verified
+        const unverified = wallets.filter(needsBackup);
+        if (unverified.length > 0) {
+            console.log(chalk.yellow(`\n⚠️  Mnemonic backup not verified for: ${unverified.map(w => w.name).join(', ')}`));
+            console.log(chalk.yellow("   Losing this device without a written mnemonic means losing the funds. Select the wallet → Verify Mnemonic Backup."));
+        }
+
         const walletChoices = wallets.map(wallet => {
             const currentAccount = wallet.accounts[wallet.currentAccountIndex];
             const accountCount = wallet.accounts.length;
             const accountInfo = accountCount > 1 
                 ? ` [${accountCount} accounts, active: ${currentAccount?.address || 'Unknown'}]` 
                 : ` [${currentAccount?.address || 'Unknown'}]`;
+            const typeInfo = isHdWallet(wallet) ? '' : isWatchOnly(wallet) ? ' (watch-only)' : ' (imported keys)';
+            const backupInfo = needsBackup(wallet) ? chalk.yellow(' ⚠️ not backed up') : '';
             return {
-                name: `${wallet.name}${accountInfo} - ${wallet.network}`,
+                name: `${wallet.name}${typeInfo}${backupInfo}${accountInfo} - ${wallet.network}`,
                 value: wallet.id
             };
         });
@@ -478,10 +536,28 @@ async function walletSubMenu(wallet: any): Promise<void> {
             value: index
         }));
 
+        // Key wallets have no mnemonic to derive from; new accounts are further imported keys.
+        // Watch wallets have no secrets at all; their export is the xpub or address list
+        const typeChoices = isWatchOnly(wallet)
+            ? [
+                { name: "➕ Watch More Addresses", value: "add_watch" },
+                { name: "📤 Export (xpub / Addresses)", value: "export_watch" }
+            ]
+            : isHdWallet(wallet)
+                ? [
+                    ...(needsBackup(wallet) ? [{ name: "📝 Verify Mnemonic Backup", value: "verify_backup" }] : []),
+                    { name: "➕ Create New Account", value: "create_account" },
+                    { name: "🔐 Secrets (Show Wallet Mnemonic & All Account Details)", value: "secrets" },
+                    { name: "🌳 Export Extended Public Key (xpub)", value: "xpub" },
+                    { name: "🧩 Split Mnemonic into Shares (Shamir)", value: "shares" }
+                ]
+                : [
+                    { name: "➕ Import Private Key", value: "add_key" },
+                    { name: "🔐 Secrets (Show All Account Keys)", value: "secrets" }
+                ];
         const walletChoices = [
             ...accountChoices,
-            { name: "➕ Create New Account", value: "create_account" },
-            { name: "🔐 Secrets (Show Wallet Mnemonic & All Account Details)", value: "secrets" },
+            ...typeChoices,
             { name: "🔙 Back (Wallet Selection)", value: "back" },
             { name: "🏠 Back to Main Menu", value: "main" }
         ];
@@ -499,6 +575,24 @@ async function walletSubMenu(wallet: any): Promise<void> {
             case "create_account":
                 await safeExecute(() => createNewAccount(wallet), "Create New Account");
                 break;
+            case "add_key":
+                await safeExecute(() => addPrivateKeysToWallet(wallet), "Import Private Key");
+                break;
+            case "add_watch":
+                await safeExecute(() => addWatchAddresses(wallet), "Watch More Addresses");
+                break;
+            case "export_watch":
+                await safeExecute(() => exportWatchWallet(wallet), "Export Watch-Only Wallet");
+                break;
+            case "xpub":
+                await safeExecute(() => exportWalletXpub(wallet), "Export Extended Public Key");
+                break;
+            case "shares":
+                await safeExecute(() => exportMnemonicShares(wallet), "Split Mnemonic");
+                break;
+            case "verify_backup":
+                await safeExecute(() => verifyWalletBackup(wallet), "Verify Mnemonic Backup");
+                break;
             case "secrets":
                 await safeExecute(() => showWalletSecrets(wallet), "Show Wallet Secrets");
                 break;
@@ -521,13 +615,24 @@ async function walletSubMenu(wallet: any): Promise<void> {
 async function accountSubMenu(wallet: any, accountIndex: number): Promise<void> {
     try {
         const account = wallet.accounts[accountIndex];
+        // Nothing that needs a private key is offered for watch-only accounts
+        const watchOnly = isWatchOnly(wallet);
         
         const choices = [
             { name: "💰 Check Balance", value: "balance" },
-            { name: "📤 Send Transaction", value: "send" },
-            { name: "🎁 Airdrop Tokens", value: "airdrop" },
+            ...(watchOnly ? [] : [
+                { name: "📤 Send Transaction", value: "send" },
+                { name: "🪙 Send Token (ERC-20)", value: "send_token" }
+            ]),
+            { name: "➕ Add Token", value: "add_token" },
+            { name: "🖼️  NFTs", value: "nfts" },
+            ...(watchOnly ? [] : [{ name: "🎁 Airdrop Tokens", value: "airdrop" }]),
             { name: "📋 Transaction History", value: "history" },
-            { name: "🔐 Secrets (Show Account Details)", value: "secrets" },
+            { name: "📥 Sync Incoming Transfers", value: "sync" },
+            ...(watchOnly ? [] : [
+                { name: "🔐 Secrets (Show Account Details)", value: "secrets" },
+                { name: "💾 Export Keystore (JSON)", value: "keystore" }
+            ]),
             { name: "🔙 Back (Account Selection)", value: "back" },
             { name: "🏠 Back to Main Menu", value: "main" }
         ];
@@ -548,15 +653,30 @@ async function accountSubMenu(wallet: any, accountIndex: number): Promise<void>
             case "send":
                 await safeExecute(() => sendAccountTransaction(wallet, accountIndex), "Send Account Transaction");
                 break;
+            case "send_token":
+                await safeExecute(() => sendTokenTransaction(wallet, accountIndex), "Send Token");
+                break;
+            case "add_token":
+                await safeExecute(() => addTokenToRegistry(wallet), "Add Token");
+                break;
+            case "nfts":
+                await safeExecute(() => manageAccountNfts(wallet, accountIndex), "NFTs");
+                break;
             case "airdrop":
                 await safeExecute(() => airdropTokens(wallet, accountIndex), "Airdrop Tokens");
                 break;
             case "history":
                 await safeExecute(() => getAccountTransactionHistory(wallet, accountIndex), "Account Transaction History");
                 break;
+            case "sync":
+                await safeExecute(() => syncAccountTransfers(wallet, accountIndex), "Sync Incoming Transfers");
+                break;
             case "secrets":
                 await safeExecute(() => getAccountSecrets(wallet, accountIndex), "Show Account Secrets");
                 break;
+            case "keystore":
+                await safeExecute(() => exportAccountKeystore(wallet, accountIndex), "Export Keystore");
+                break;
             case "back":
                 await walletSubMenu(wallet);
                 break;
@@ -574,25 +694,34 @@ async function createNewAccount(wallet: any): Promise<void> {
     console.log(`Wallet: ${wallet.name}`);
     console.log(`Current accounts: ${wallet.accounts.length}`);
     
+    if (!isHdWallet(wallet)) {
+        console.log("❌ This wallet holds imported keys and has no mnemonic to derive new accounts from.");
+        return;
+    }
+    
     try {
-        // Get the next account index
-        const nextIndex = wallet.accounts.length;
+        // New accounts follow the wallet's path scheme unless another one is picked
+        const walletTemplate = wallet.pathTemplate ?? DEFAULT_PATH_TEMPLATE;
+        console.log(`Path scheme: ${describePathTemplate(walletTemplate)}`);
+        const pathTemplate = await promptPathTemplate(walletTemplate);
+        
+        // Get the next account index not yet used under that scheme
+        const nextIndex = nextPathIndex(pathTemplate, wallet.accounts.map((account: any) => account.derivationPath));
         
         // Ask for network
-        const { NETWORKS } = await import("./networks.js");
         const networkAnswer = await inquirer.prompt([
             {
                 type: "list",
                 name: "network",
                 message: "Select network for the new account:",
-                choices: Object.keys(NETWORKS)
+                choices: getNetworkNames()
             }
         ]);
         
-        // Get mnemonic and create new account
-        const { mnemonic } = await secureStorage.decryptWallet(wallet);
-        const mnemonicObj = ethers.Mnemonic.fromPhrase(mnemonic);
-        const derivationPath = `m/44'/60'/0'/0/${nextIndex}`;
+        // Get mnemonic (and BIP-39 passphrase, if any) and create new account
+        const { mnemonic, passphrase } = await secureStorage.decryptWallet(wallet);
+        const mnemonicObj = mnemonicFromPhrase(mnemonic!, passphrase, wallet.wordlist);
+        const derivationPath = derivePath(pathTemplate, nextIndex);
         const newWallet = HDNodeWallet.fromMnemonic(mnemonicObj, derivationPath);
         
         // Create new account object
@@ -607,14 +736,30 @@ async function createNewAccount(wallet: any): Promise<void> {
         // Add account to wallet
         wallet.accounts.push(newAccount);
         
+        if (pathTemplate !== walletTemplate) {
+            const schemeAnswer = await inquirer.prompt([
+                {
+                    type: "confirm",
+                    name: "keep",
+                    message: `Use ${describePathTemplate(pathTemplate)} for this wallet's new accounts from now on?`,
+                    default: false
+                }
+            ]);
+            if (schemeAnswer.keep) {
+                if (pathTemplate === DEFAULT_PATH_TEMPLATE) {
+                    delete wallet.pathTemplate;
+                } else {
+                    wallet.pathTemplate = pathTemplate;
+                }
+            }
+        }
+        
         // Update wallet in storage
         const wallets = await secureStorage.loadWallets();
         const walletIndex = wallets.findIndex(w => w.id === wallet.id);
         if (walletIndex !== -1) {
             wallets[walletIndex] = wallet;
-            const encryptedWallets = secureStorage.encryptData(JSON.stringify(wallets));
-            const WALLETS_FILE = path.join(process.cwd(), '.wallet-storage', 'wallets.enc');
-            fs.writeFileSync(WALLETS_FILE, encryptedWallets, { mode: 0o600 });
+            await secureStorage.saveWallets(wallets);
         }
         
         console.log("\n✅ New account created successfully!");
@@ -656,10 +801,9 @@ async function showWalletSecrets(wallet: any): Promise<void> {
         }
 
         // Verify the password works by attempting to decrypt the wallet
-        let mnemonic: string;
+        let mnemonic: string | null, passphrase: string;
         try {
-            const result = await secureStorage.decryptWallet(wallet);
-            mnemonic = result.mnemonic;
+            ({ mnemonic, passphrase } = await secureStorage.decryptWallet(wallet));
         } catch (error) {
             console.log("❌ Invalid master password. Access denied.");
             secureStorage.clearMasterKey();
@@ -669,25 +813,37 @@ async function showWalletSecrets(wallet: any): Promise<void> {
         console.log("\n🔐 Wallet Secrets");
         console.log("=".repeat(60));
         console.log(`Wallet Name: ${wallet.name}`);
+        console.log(`Wallet Type: ${isHdWallet(wallet) ? 'HD (mnemonic)' : 'Imported private keys'}`);
+        if (isHdWallet(wallet)) {
+            console.log(`Path Scheme: ${describePathTemplate(wallet.pathTemplate ?? DEFAULT_PATH_TEMPLATE)}`);
+            console.log(`Wordlist: ${describeWordlist(wallet.wordlist)}`);
+        }
         console.log(`Network: ${wallet.network}`);
         console.log(`Total Accounts: ${wallet.accounts.length}`);
         console.log(`Created: ${new Date(wallet.createdAt).toLocaleString()}`);
         console.log("=".repeat(60));
-        console.log(`Mnemonic Phrase: ${mnemonic}`);
-        console.log("=".repeat(60));
+        if (mnemonic) {
+            console.log(`Mnemonic Phrase: ${mnemonic}`);
+            if (passphrase) {
+                console.log(`BIP-39 Passphrase: ${passphrase}`);
+            }
+            console.log("=".repeat(60));
+        }
         
         console.log("\nAll Account Details:");
         console.log("-".repeat(60));
         
         for (let i = 0; i < wallet.accounts.length; i++) {
             const account = wallet.accounts[i];
-            const { privateKey } = await secureStorage.decryptWallet(wallet);
+            const privateKey = await secureStorage.decryptAccountKey(wallet, i);
             
             console.log(`\nAccount ${i}:`);
             console.log(`  Address: ${account.address}`);
             console.log(`  Public Key: ${account.publicKey}`);
             console.log(`  Private Key: ${privateKey}`);
-            console.log(`  Derivation Path: ${account.derivationPath}`);
+            if (account.derivationPath) {
+                console.log(`  Derivation Path: ${account.derivationPath}`);
+            }
             if (account.balance) {
                 console.log(`  Balance: ${account.balance} ETH`);
             }
@@ -704,10 +860,17 @@ async function showWalletSecrets(wallet: any): Promise<void> {
 async function showSettings(): Promise<void> {
     try {
         const config = secureStorage.getConfig();
+        const kdf = secureStorage.getKdf();
+        const discovery = getDiscoveryOptions();
         
         const choices = [
             { name: `🌐 Default Network: ${config.defaultNetwork}`, value: "network" },
+            { name: "🛰️  Custom Networks", value: "networks" },
             { name: "🔐 Change Master Password", value: "password" },
+            { name: `🔑 Key Derivation: ${kdf ? describeKdf(kdf) : 'not set'}`, value: "kdf" },
+            { name: "⏪ Restore Previous Wallet File", value: "restore" },
+            { name: "📦 Backup & Restore Vault", value: "backup" },
+            { name: `🔍 Account Discovery: gap ${discovery.gapLimit}, up to ${discovery.maxAccounts}, batches of ${discovery.batchSize}`, value: "discovery" },
             { name: `💾 Auto Save: ${config.autoSave ? 'Enabled' : 'Disabled'}`, value: "autosave" },
             { name: `🔒 Encryption: ${config.encryptionEnabled ? 'Enabled' : 'Disabled'}`, value: "encryption" },
             { name: "🗑️  Clear All Data", value: "clear" },
@@ -730,17 +893,37 @@ async function showSettings(): Promise<void> {
                         type: "list",
                         name: "network",
                         message: "Select default network:",
-                        choices: ["sepolia", "goerli", "mainnet"]
+                        choices: getNetworkNames()
                     }
                 ]);
                 secureStorage.updateConfig({ defaultNetwork: networkAnswer.network });
                 console.log(`✅ Default network set to: ${networkAnswer.network}`);
                 break;
                 
+            case "networks":
+                await safeExecute(() => manageNetworks(), "Custom Networks");
+                break;
+                
             case "password":
                 await safeExecute(() => changeMasterPassword(), "Change Master Password");
                 break;
                 
+            case "kdf":
+                await safeExecute(() => changeKeyDerivation(), "Key Derivation");
+                break;
+                
+            case "restore":
+                await safeExecute(() => restoreWalletFile(), "Restore Wallet File");
+                break;
+                
+            case "backup":
+                await safeExecute(() => manageBackups(), "Backup & Restore");
+                break;
+                
+            case "discovery":
+                await safeExecute(() => changeDiscoverySettings(), "Account Discovery");
+                break;
+                
             case "autosave":
                 const autosaveAnswer = await inquirer.prompt([
                     {
@@ -779,6 +962,222 @@ async function showSettings(): Promise<void> {
     }
 }
 
+function splitUrlList(input: string | undefined): string[] {
+    return (input ?? "").split(",").map(url => url.trim()).filter(url => url.length > 0);
+}
+
+function printEndpointHealth(results: EndpointHealth[], expectedChainId: number): void {
+    results.forEach((result, index) => {
+        const role = index === 0 ? "primary" : `fallback ${index}`;
+        if (!result.ok) {
+            console.log(chalk.red(`❌ ${result.url} (${role}): ${result.error}`));
+        } else if (result.chainId !== expectedChainId) {
+            console.log(chalk.yellow(`⚠️  ${result.url} (${role}): chain ID ${result.chainId}, expected ${expectedChainId}`));
+        } else {
+            console.log(chalk.green(`✅ ${result.url} (${role}): block ${result.blockNumber}, ${result.latencyMs}ms`));
+        }
+    });
+}
+
+async function promptNetworkDetails(existing?: NetworkConfig): Promise<NetworkConfig> {
+    const answers = await inquirer.prompt([
+        {
+            type: "input",
+            name: "name",
+            message: "Network name (used in menus and --network):",
+            when: () => !existing,
+            validate: (input: string) => {
+                const name = input.trim();
+                if (!/^[a-z0-9][a-z0-9-_]*$/i.test(name)) {
+                    return "Use letters, digits, '-' or '_' (e.g. base-sepolia).";
+                }
+                if (getNetwork(name)) {
+                    return `Network "${name}" already exists.`;
+                }
+                return true;
+            }
+        },
+        {
+            type: "input",
+            name: "rpcUrl",
+            message: "RPC URL:",
+            ...(existing && { default: existing.rpcUrl }),
+            validate: (input: string) => /^https?:\/\/\S+$/.test(input.trim()) || "Please enter an http(s) URL."
+        },
+        {
+            type: "input",
+            name: "fallbackRpcUrls",
+            message: "Fallback RPC URLs, comma-separated (optional):",
+            ...(existing?.fallbackRpcUrls && { default: existing.fallbackRpcUrls.join(", ") }),
+            validate: (input: string) => splitUrlList(input).every(url => /^https?:\/\/\S+$/.test(url)) || "Please enter http(s) URLs separated by commas."
+        },
+        {
+            type: "input",
+            name: "chainId",
+            message: "Chain ID:",
+            ...(existing && { default: String(existing.chainId) }),
+            validate: (input: string) => /^[1-9]\d*$/.test(input.trim()) || "Please enter a positive integer chain ID."
+        },
+        {
+            type: "input",
+            name: "currencySymbol",
+            message: "Currency symbol:",
+            default: existing?.currencySymbol ?? "ETH",
+            validate: (input: string) => input.trim().length > 0 || "Currency symbol cannot be empty."
+        },
+        {
+            type: "input",
+            name: "explorerUrl",
+            message: "Block explorer URL (optional):",
+            ...(existing?.explorerUrl && { default: existing.explorerUrl }),
+            validate: (input: string) => !input || input.trim() === "" || /^https?:\/\/\S+$/.test(input.trim()) || "Please enter an http(s) URL."
+        }
+    ]);
+
+    const explorerUrl = (answers.explorerUrl ?? "").trim();
+    const fallbackRpcUrls = splitUrlList(answers.fallbackRpcUrls);
+    return {
+        name: existing?.name ?? answers.name.trim(),
+        rpcUrl: answers.rpcUrl.trim(),
+        ...(fallbackRpcUrls.length > 0 && { fallbackRpcUrls }),
+        chainId: parseInt(answers.chainId.trim()),
+        currencySymbol: answers.currencySymbol.trim(),
+        ...(explorerUrl && { explorerUrl })
+    };
+}
+
+// Check every endpoint answers with the chain ID that was entered before saving
+async function confirmNetworkEndpoint(network: NetworkConfig): Promise<boolean> {
+    console.log(chalk.gray("Checking RPC endpoints..."));
+    const results = await checkEndpoints([network.rpcUrl, ...(network.fallbackRpcUrls ?? [])]);
+    printEndpointHealth(results, network.chainId);
+
+    if (results.every(r => r.ok && r.chainId === network.chainId)) {
+        return true;
+    }
+
+    const { save } = await inquirer.prompt([
+        {
+            type: "confirm",
+            name: "save",
+            message: "Save the network anyway?",
+            default: false
+        }
+    ]);
+    return save;
+}
+
+async function manageNetworks(): Promise<void> {
+    console.log("\n🛰️  Networks");
+    console.log("=".repeat(40));
+    getNetworks().forEach(network => {
+        const tag = isBuiltinNetwork(network.name) ? chalk.gray(" (built-in)") : "";
+        console.log(`${network.name}${tag}: chain ${network.chainId}, ${network.currencySymbol}`);
+        console.log(chalk.gray(`   RPC: ${network.rpcUrl}`));
+        (network.fallbackRpcUrls ?? []).forEach(url => console.log(chalk.gray(`   Fallback: ${url}`)));
+        if (network.explorerUrl) {
+            console.log(chalk.gray(`   Explorer: ${network.explorerUrl}`));
+        }
+    });
+    console.log("=".repeat(40));
+
+    const custom = getCustomNetworks();
+    const choices = [
+        { name: "🩺 Check RPC Endpoints", value: "check" },
+        { name: "➕ Add Network", value: "add" },
+        ...(custom.length > 0 ? [
+            { name: "✏️  Edit Network", value: "edit" },
+            { name: "🗑️  Remove Network", value: "remove" }
+        ] : []),
+        { name: "🔙 Back", value: "back" }
+    ];
+
+    const { action } = await inquirer.prompt([
+        {
+            type: "list",
+            name: "action",
+            message: "Manage custom networks:",
+            choices
+        }
+    ]);
+
+    if (action === "back") {
+        return;
+    }
+
+    if (action === "check") {
+        const { name } = await inquirer.prompt([
+            {
+                type: "list",
+                name: "name",
+                message: "Select network to check:",
+                choices: getNetworkNames()
+            }
+        ]);
+        printEndpointHealth(await checkEndpoints(getRpcUrls(name)), getNetwork(name)!.chainId);
+        return;
+    }
+
+    if (action === "add") {
+        const network = await promptNetworkDetails();
+        if (await confirmNetworkEndpoint(network)) {
+            saveCustomNetwork(network);
+            console.log(`✅ Network "${network.name}" added.`);
+        } else {
+            console.log("❌ Network not saved.");
+        }
+        return;
+    }
+
+    const { name } = await inquirer.prompt([
+        {
+            type: "list",
+            name: "name",
+            message: action === "edit" ? "Select network to edit:" : "Select network to remove:",
+            choices: custom.map(n => n.name)
+        }
+    ]);
+
+    if (action === "edit") {
+        const network = await promptNetworkDetails(custom.find(n => n.name === name));
+        if (await confirmNetworkEndpoint(network)) {
+            saveCustomNetwork(network);
+            console.log(`✅ Network "${network.name}" updated.`);
+        } else {
+            console.log("❌ Changes discarded.");
+        }
+        return;
+    }
+
+    // Wallets keep their network by name, so a network in use can't be removed
+    const wallets = await secureStorage.loadWallets();
+    const inUse = wallets.filter(w => w.network === name);
+    if (inUse.length > 0) {
+        console.log(`❌ Network "${name}" is used by: ${inUse.map(w => w.name).join(', ')}`);
+        return;
+    }
+
+    const { confirm } = await inquirer.prompt([
+        {
+            type: "confirm",
+            name: "confirm",
+            message: `Remove network "${name}"?`,
+            default: false
+        }
+    ]);
+    if (!confirm) {
+        console.log("❌ Network not removed.");
+        return;
+    }
+
+    removeCustomNetwork(name);
+    if (secureStorage.getConfig().defaultNetwork === name) {
+        secureStorage.updateConfig({ defaultNetwork: 'sepolia' });
+        console.log("Default network reset to sepolia.");
+    }
+    console.log(`✅ Network "${name}" removed.`);
+}
+
 async function changeMasterPassword(): Promise<void> {
     try {
         const currentPasswordAnswer = await inquirer.prompt([
@@ -835,13 +1234,299 @@ async function changeMasterPassword(): Promise<void> {
             return;
         }
 
-        await secureStorage.setMasterPassword(newPasswordAnswer.newPassword);
+        console.log(chalk.gray("Re-encrypting wallets, keys and transaction history..."));
+        await secureStorage.rotateMasterPassword(newPasswordAnswer.newPassword);
         console.log("✅ Master password changed successfully!");
     } catch (error: any) {
         handleError(error, "Change Master Password");
     }
 }
 
+async function changeKeyDerivation(): Promise<void> {
+    const current = secureStorage.getKdf();
+    if (!current) {
+        console.log("❌ Master password not set.");
+        return;
+    }
+
+    console.log(chalk.cyan(`\n🔑 Current key derivation: ${describeKdf(current)}`));
+    console.log(chalk.gray("Stronger settings make brute-forcing the master password slower, and unlocking takes longer too."));
+
+    const presetAnswer = await inquirer.prompt([
+        {
+            type: "list",
+            name: "preset",
+            message: "Select key derivation work factor:",
+            choices: [
+                ...KDF_PRESETS.map((preset, index) => ({
+                    name: sameKdf(preset.params, current) ? `${preset.label} (current)` : preset.label,
+                    value: index
+                })),
+                { name: "🔙 Back", value: -1 }
+            ]
+        }
+    ]);
+    const preset = KDF_PRESETS[presetAnswer.preset];
+    if (!preset) {
+        return;
+    }
+    if (sameKdf(preset.params, current)) {
+        console.log("ℹ️  Already using this setting.");
+        return;
+    }
+
+    const passwordAnswer = await inquirer.prompt([
+        {
+            type: "password",
+            name: "password",
+            message: "Enter master password to re-encrypt your data:",
+            mask: "*"
+        }
+    ]);
+
+    console.log(chalk.gray("Re-encrypting wallets, keys and transaction history..."));
+    await secureStorage.changeKdf(passwordAnswer.password, preset.params);
+    console.log(`✅ Key derivation set to: ${preset.label}`);
+}
+
+function countValidator(min: number, max: number) {
+    return (input: string) => {
+        const count = Number(input.trim());
+        if (!Number.isInteger(count) || count < min || count > max) {
+            return `Please enter a whole number between ${min} and ${max}.`;
+        }
+        return true;
+    };
+}
+
+async function changeDiscoverySettings(): Promise<void> {
+    const current = getDiscoveryOptions();
+    console.log(chalk.cyan("\n🔍 Account discovery runs when a mnemonic is imported."));
+    console.log(chalk.gray("It stops after the gap limit of unused accounts in a row, or at the maximum index."));
+
+    const answers = await inquirer.prompt([
+        {
+            type: "input",
+            name: "gapLimit",
+            message: "Unused accounts in a row before stopping (gap limit):",
+            default: String(current.gapLimit),
+            validate: countValidator(1, 100)
+        },
+        {
+            type: "input",
+            name: "maxAccounts",
+            message: "Maximum accounts to check:",
+            default: String(current.maxAccounts),
+            validate: countValidator(1, 1000)
+        },
+        {
+            type: "input",
+            name: "batchSize",
+            message: "Accounts per RPC batch request:",
+            default: String(current.batchSize),
+            validate: countValidator(1, MAX_DISCOVERY_BATCH)
+        }
+    ]);
+
+    const discovery = {
+        gapLimit: Number(answers.gapLimit.trim()),
+        maxAccounts: Number(answers.maxAccounts.trim()),
+        batchSize: Number(answers.batchSize.trim())
+    };
+    secureStorage.updateConfig({ discovery });
+    console.log(`✅ Discovery: gap limit ${discovery.gapLimit}, up to ${discovery.maxAccounts} accounts, ${discovery.batchSize} per batch`);
+}
+
+// A wallets.enc that won't decrypt blocks every save; offer a previous version before anything else
+async function offerWalletRestore(): Promise<void> {
+    if (!secureStorage.isWalletsFileDamaged()) {
+        return;
+    }
+    console.log(chalk.yellow("\n⚠️  wallets.enc can't be read and may be damaged. Wallets can't be saved until it is replaced, so nothing in it is overwritten."));
+    console.log(chalk.yellow("   Restore a previous version now, or move wallets.enc out of .wallet-storage to start over."));
+    await restoreWalletFile();
+}
+
+async function restoreWalletFile(): Promise<void> {
+    const generations = await secureStorage.listWalletGenerations();
+    if (generations.length === 0) {
+        console.log("ℹ️  No previous versions of the wallet file have been saved yet.");
+        return;
+    }
+
+    const answer = await inquirer.prompt([
+        {
+            type: "list",
+            name: "generation",
+            message: "Select the version to restore:",
+            choices: [
+                ...generations.map(generation => ({
+                    name: `${generation.savedAt.toLocaleString()} - ${generation.wallets === null ? 'unreadable with the current password' : `${generation.wallets} wallet(s)`}`,
+                    value: generation.id,
+                    ...(generation.wallets === null && { disabled: true })
+                })),
+                { name: "🔙 Back", value: "back" }
+            ]
+        }
+    ]);
+    if (answer.generation === "back") {
+        return;
+    }
+
+    const confirm = await inquirer.prompt([
+        {
+            type: "confirm",
+            name: "restore",
+            message: "Replace your current wallets with this version? The current file is kept as a version too.",
+            default: false
+        }
+    ]);
+    if (!confirm.restore) {
+        console.log("Restore cancelled.");
+        return;
+    }
+
+    const wallets = await secureStorage.restoreWalletGeneration(answer.generation);
+    console.log(`✅ Restored ${wallets.length} wallet(s).`);
+}
+
+async function manageBackups(): Promise<void> {
+    const actionAnswer = await inquirer.prompt([
+        {
+            type: "list",
+            name: "action",
+            message: "Backup & Restore:",
+            choices: [
+                { name: "📤 Export Encrypted Backup", value: "export" },
+                { name: "📥 Import Backup", value: "import" },
+                { name: "🔙 Back", value: "back" }
+            ]
+        }
+    ]);
+
+    if (actionAnswer.action === "export") {
+        await exportVaultBackup();
+    } else if (actionAnswer.action === "import") {
+        await importVaultBackup();
+    }
+}
+
+async function exportVaultBackup(): Promise<void> {
+    console.log(chalk.yellow("⚠️  The backup contains every mnemonic and private key, protected only by the backup password."));
+
+    const answers = await inquirer.prompt([
+        {
+            type: "input",
+            name: "file",
+            message: "Backup file path:",
+            default: `ethervault3-backup-${new Date().toISOString().slice(0, 10)}.json`,
+            validate: (input: string) => {
+                if (!input || input.trim().length === 0) {
+                    return "File path cannot be empty.";
+                }
+                if (fs.existsSync(input.trim())) {
+                    return "File already exists. Choose a new path.";
+                }
+                return true;
+            }
+        },
+        {
+            type: "password",
+            name: "password",
+            message: "Backup password:",
+            mask: "*",
+            validate: (input: string) => {
+                if (!input || input.length < 8) {
+                    return "Backup password must be at least 8 characters long.";
+                }
+                return true;
+            }
+        },
+        {
+            type: "password",
+            name: "confirmPassword",
+            message: "Confirm backup password:",
+            mask: "*"
+        }
+    ]);
+
+    if (answers.password !== answers.confirmPassword) {
+        console.log("❌ Passwords do not match.");
+        return;
+    }
+
+    const file = path.resolve(answers.file.trim());
+    const contents = await createBackup(file, answers.password);
+    console.log(`✅ Backup saved to ${file}`);
+    console.log(`   ${contents.wallets.length} wallet(s), ${contents.transactions.length} transaction(s)`);
+}
+
+async function importVaultBackup(): Promise<void> {
+    const answers = await inquirer.prompt([
+        {
+            type: "input",
+            name: "file",
+            message: "Backup file path:",
+            validate: (input: string) => {
+                if (!input || !fs.existsSync(input.trim())) {
+                    return "File not found.";
+                }
+                return true;
+            }
+        },
+        {
+            type: "password",
+            name: "password",
+            message: "Backup password:",
+            mask: "*"
+        }
+    ]);
+
+    const contents = readBackup(answers.file.trim(), answers.password);
+    printBackupPreview(await previewBackup(contents));
+
+    const modeAnswer = await inquirer.prompt([
+        {
+            type: "list",
+            name: "mode",
+            message: "How should the backup be imported?",
+            choices: [
+                { name: "➕ Merge: add missing wallets, transactions and settings", value: "merge" },
+                { name: "♻️  Replace: make this vault match the backup", value: "replace" },
+                { name: "🔙 Cancel", value: "cancel" }
+            ]
+        }
+    ]);
+    if (modeAnswer.mode === "cancel") {
+        return;
+    }
+    const mode: ImportMode = modeAnswer.mode;
+
+    if (mode === "replace") {
+        const confirm = await inquirer.prompt([
+            {
+                type: "confirm",
+                name: "replace",
+                message: "⚠️  Replace ALL current wallets, transactions and settings with the backup?",
+                default: false
+            }
+        ]);
+        if (!confirm.replace) {
+            console.log("Import cancelled.");
+            return;
+        }
+    }
+
+    const result = await importBackup(contents, mode);
+    if (mode === "replace" && contents.user && currentUser) {
+        currentUser.username = contents.user.username;
+    }
+    console.log(`✅ Backup imported (${mode}): ${result.walletsAdded} wallet(s) added, ${result.transactionsAdded} transaction(s) added.`);
+    if (result.walletsSkipped > 0) {
+        console.log(chalk.gray(`   ${result.walletsSkipped} wallet(s) were already in this vault, or share an address with a wallet in it, and were skipped.`));
+    }
+}
+
 async function clearAllData(): Promise<void> {
     try {
         const passwordAnswer = await inquirer.prompt([
@@ -866,6 +1551,18 @@ async function clearAllData(): Promise<void> {
             return;
         }
 
+        const backupAnswer = await inquirer.prompt([
+            {
+                type: "confirm",
+                name: "backup",
+                message: "Export an encrypted backup before deleting?",
+                default: true
+            }
+        ]);
+        if (backupAnswer.backup) {
+            await exportVaultBackup();
+        }
+
         const confirmAnswer = await inquirer.prompt([
             {
                 type: "confirm",
@@ -886,8 +1583,24 @@ async function clearAllData(): Promise<void> {
             ]);
             
             if (finalConfirm.finalConfirm) {
-                await secureStorage.clearAllData();
+                // Previous versions and upgrade backups are the only way back from a mistaken clear, so they get their own question
+                let keepPreviousVersions = false;
+                if (secureStorage.hasRetainedCopies()) {
+                    const keepAnswer = await inquirer.prompt([
+                        {
+                            type: "confirm",
+                            name: "keep",
+                            message: "Keep previous wallet versions and storage upgrade backups? They still open with the current master password.",
+                            default: true
+                        }
+                    ]);
+                    keepPreviousVersions = keepAnswer.keep;
+                }
+                const keptIn = await secureStorage.clearAllData(keepPreviousVersions);
                 console.log("✅ All data cleared successfully.");
+                if (keptIn) {
+                    console.log(chalk.gray(`   Previous wallet versions were kept in ${keptIn}`));
+                }
                 console.log("🔄 Please restart the application to complete the reset.");
             } else {
                 console.log("❌ Data deletion cancelled.");
@@ -910,6 +1623,7 @@ async function main() {
         console.log("❌ Exiting due to authentication failure.");
         return;
     }
+    await safeExecute(() => offerWalletRestore(), "Restore Wallet File");
 
     let exit = false;
 
@@ -930,7 +1644,7 @@ async function main() {
                 await safeExecute(() => createWallet(), "Create Wallet");
                 break;
             case "2":
-                await safeExecute(() => importWallet(), "Import Wallet");
+                await safeExecute(() => importWalletMenu(), "Import Wallet");
                 break;
             case "3":
                 // Check authentication before wallet management
@@ -966,4 +1680,10 @@ async function main() {
     }
 }
 
-main();
+// Subcommands run non-interactively; no arguments opens the menu
+const cliArgs = process.argv.slice(2);
+if (cliArgs.length > 0) {
+    runCli(cliArgs, APP_VERSION).then(code => process.exit(code));
+} else {
+    main();
+}
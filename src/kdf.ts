@@ -0,0 +1,111 @@
+/**
+ * Key derivation for EtherVault3 CLI storage
+ * PBKDF2 (legacy), scrypt and argon2id with their cost parameters, plus presets for Settings
+ */
+
+import * as crypto from 'crypto';
+import { argon2id } from '@noble/hashes/argon2';
+
+export type KdfParams =
+    | { kdf: 'pbkdf2'; iterations: number; digest: 'sha512' }
+    | { kdf: 'scrypt'; N: number; r: number; p: number }
+    | { kdf: 'argon2id'; m: number; t: number; p: number }; // m in KiB
+
+export interface KdfPreset {
+    label: string;
+    params: KdfParams;
+}
+
+const KEY_LENGTH = 32; // 256 bits
+
+// What every vault used before the envelope was versioned
+export const LEGACY_KDF: KdfParams = { kdf: 'pbkdf2', iterations: 100000, digest: 'sha512' };
+
+export const DEFAULT_KDF: KdfParams = { kdf: 'scrypt', N: 2 ** 17, r: 8, p: 1 };
+
+export const KDF_PRESETS: KdfPreset[] = [
+    { label: 'scrypt, standard (128 MiB)', params: DEFAULT_KDF },
+    { label: 'scrypt, strong (256 MiB)', params: { kdf: 'scrypt', N: 2 ** 18, r: 8, p: 1 } },
+    { label: 'argon2id, standard (64 MiB, 3 passes)', params: { kdf: 'argon2id', m: 65536, t: 3, p: 1 } },
+    { label: 'argon2id, strong (128 MiB, 4 passes)', params: { kdf: 'argon2id', m: 131072, t: 4, p: 1 } }
+];
+
+export function deriveKey(password: string, salt: Buffer, params: KdfParams): Buffer {
+    switch (params.kdf) {
+        case 'pbkdf2':
+            return crypto.pbkdf2Sync(password, salt, params.iterations, KEY_LENGTH, params.digest);
+        case 'scrypt':
+            // Node's default maxmem (32 MiB) is below what N=2^17 needs
+            return crypto.scryptSync(password, salt, KEY_LENGTH, {
+                N: params.N,
+                r: params.r,
+                p: params.p,
+                maxmem: 256 * params.N * params.r
+            });
+        case 'argon2id':
+            return Buffer.from(argon2id(password, salt, { m: params.m, t: params.t, p: params.p, dkLen: KEY_LENGTH }));
+    }
+}
+
+// Compact form recorded in every encrypted envelope, e.g. "scrypt,N=131072,r=8,p=1"
+export function formatKdfTag(params: KdfParams): string {
+    switch (params.kdf) {
+        case 'pbkdf2':
+            return `pbkdf2,i=${params.iterations},d=${params.digest}`;
+        case 'scrypt':
+            return `scrypt,N=${params.N},r=${params.r},p=${params.p}`;
+        case 'argon2id':
+            return `argon2id,m=${params.m},t=${params.t},p=${params.p}`;
+    }
+}
+
+export function parseKdfTag(tag: string): KdfParams {
+    const [kdf, ...pairs] = tag.split(',');
+    const values: { [key: string]: string } = {};
+    for (const pair of pairs) {
+        const [key, value] = pair.split('=');
+        if (key && value) {
+            values[key] = value;
+        }
+    }
+    const num = (key: string) => {
+        const value = Number(values[key]);
+        if (!Number.isInteger(value) || value <= 0) {
+            throw new Error(`Invalid KDF parameter ${key} in "${tag}"`);
+        }
+        return value;
+    };
+
+    switch (kdf) {
+        case 'pbkdf2':
+            if (values['d'] !== 'sha512') {
+                throw new Error(`Unsupported PBKDF2 digest in "${tag}"`);
+            }
+            return { kdf, iterations: num('i'), digest: 'sha512' };
+        case 'scrypt':
+            return { kdf, N: num('N'), r: num('r'), p: num('p') };
+        case 'argon2id':
+            return { kdf, m: num('m'), t: num('t'), p: num('p') };
+        default:
+            throw new Error(`Unsupported KDF "${kdf}"`);
+    }
+}
+
+export function sameKdf(a: KdfParams, b: KdfParams): boolean {
+    return formatKdfTag(a) === formatKdfTag(b);
+}
+
+export function describeKdf(params: KdfParams): string {
+    const preset = KDF_PRESETS.find(p => sameKdf(p.params, params));
+    if (preset) {
+        return preset.label;
+    }
+    switch (params.kdf) {
+        case 'pbkdf2':
+            return `PBKDF2-SHA512 (${params.iterations} iterations, legacy)`;
+        case 'scrypt':
+            return `scrypt (N=${params.N}, r=${params.r}, p=${params.p})`;
+        case 'argon2id':
+            return `argon2id (${params.m} KiB, ${params.t} passes, p=${params.p})`;
+    }
+}
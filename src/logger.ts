@@ -27,6 +27,7 @@ interface LogConfig {
     showTimestamp: boolean;
     showCategory: boolean;
     showEmojis: boolean;
+    useStderr: boolean; // Keep stdout free for machine-readable output
 }
 
 class Logger {
@@ -37,10 +38,19 @@ class Logger {
             level: LogLevel.INFO,
             showTimestamp: false,
             showCategory: false,
-            showEmojis: true
+            showEmojis: true,
+            useStderr: false
         };
     }
 
+    private write(...args: any[]): void {
+        if (this.config.useStderr) {
+            console.error(...args);
+        } else {
+            console.log(...args);
+        }
+    }
+
     private formatMessage(level: LogLevel, category: LogCategory, message: string, emoji?: string): string {
         let formatted = '';
         
@@ -81,47 +91,47 @@ class Logger {
     debug(category: LogCategory, message: string, data?: any): void {
         if (this.shouldLog(LogLevel.DEBUG)) {
             const formatted = this.formatMessage(LogLevel.DEBUG, category, message, '🔍');
-            console.log(formatted);
-            if (data) console.log(data);
+            this.write(formatted);
+            if (data) this.write(data);
         }
     }
 
     info(category: LogCategory, message: string, data?: any): void {
         if (this.shouldLog(LogLevel.INFO)) {
             const formatted = this.formatMessage(LogLevel.INFO, category, message, 'ℹ️');
-            console.log(formatted);
-            if (data) console.log(data);
+            this.write(formatted);
+            if (data) this.write(data);
         }
     }
 
     success(category: LogCategory, message: string, data?: any): void {
         if (this.shouldLog(LogLevel.INFO)) {
             const formatted = this.formatMessage(LogLevel.INFO, category, message, '✅');
-            console.log(chalk.green(formatted)); // Success: Green
-            if (data) console.log(data);
+            this.write(chalk.green(formatted)); // Success: Green
+            if (data) this.write(data);
         }
     }
 
     warn(category: LogCategory, message: string, data?: any): void {
         if (this.shouldLog(LogLevel.WARN)) {
             const formatted = this.formatMessage(LogLevel.WARN, category, message, '⚠️');
-            console.log(formatted);
-            if (data) console.log(data);
+            this.write(formatted);
+            if (data) this.write(data);
         }
     }
 
     error(category: LogCategory, message: string, error?: any): void {
         if (this.shouldLog(LogLevel.ERROR)) {
             const formatted = this.formatMessage(LogLevel.ERROR, category, message, '❌');
-            console.log(formatted);
+            this.write(formatted);
             if (error) {
                 if (error instanceof Error) {
-                    console.log(chalk.red(`   Error: ${error.message}`));
+                    this.write(chalk.red(`   Error: ${error.message}`));
                     if (process.env.NODE_ENV === 'development') {
-                        console.log(chalk.red(`   Stack: ${error.stack}`));
+                        this.write(chalk.red(`   Stack: ${error.stack}`));
                     }
                 } else {
-                    console.log(chalk.red(`   Details: ${error}`));
+                    this.write(chalk.red(`   Details: ${error}`));
                 }
             }
         }
@@ -129,23 +139,23 @@ class Logger {
 
     // User-friendly error messages
     userError(context: string, userMessage: string, technicalError?: any): void {
-        console.log(`\n${chalk.red('❌ ' + context)}`);
-        console.log(chalk.red(`   ${userMessage}`));
+        this.write(`\n${chalk.red('❌ ' + context)}`);
+        this.write(chalk.red(`   ${userMessage}`));
         
         if (technicalError && process.env.NODE_ENV === 'development') {
-            console.log(chalk.red(`   Technical details: ${technicalError.message || technicalError}`));
+            this.write(chalk.red(`   Technical details: ${technicalError.message || technicalError}`));
         }
         
-        console.log(chalk.cyan("\n🔄 Returning to main menu...\n"));
+        this.write(chalk.cyan("\n🔄 Returning to main menu...\n"));
     }
 
     // Progress indicators
     progress(message: string, current?: number, total?: number): void {
         if (current !== undefined && total !== undefined) {
             const percentage = Math.round((current / total) * 100);
-            console.log(`\n${chalk.cyan('🔄 ' + message)} ${chalk.white(`(${current}/${total} - ${percentage}%)`)}`);
+            this.write(`\n${chalk.cyan('🔄 ' + message)} ${chalk.white(`(${current}/${total} - ${percentage}%)`)}`);
         } else {
-            console.log(`\n${chalk.cyan('🔄 ' + message)}`);
+            this.write(`\n${chalk.cyan('🔄 ' + message)}`);
         }
     }
 
@@ -154,23 +164,23 @@ class Logger {
         const emoji = status === 'confirmed' ? '✅' : status === 'failed' ? '❌' : '⏳';
         const statusText = status === 'confirmed' ? chalk.green('Confirmed') : status === 'failed' ? chalk.red('Failed') : chalk.cyan('Pending');
         
-        console.log(`${emoji} ${chalk.white('Transaction')} ${statusText}`);
-        console.log(chalk.white(`   Hash: ${hash}`));
+        this.write(`${emoji} ${chalk.white('Transaction')} ${statusText}`);
+        this.write(chalk.white(`   Hash: ${hash}`));
         if (details) {
-            console.log(chalk.white(`   ${details}`));
+            this.write(chalk.white(`   ${details}`));
         }
     }
 
     // Security warnings
     securityWarning(message: string): void {
-        console.log(`\n${chalk.yellow('🔒 SECURITY WARNING:')} ${chalk.yellow(message)}`);
+        this.write(`\n${chalk.yellow('🔒 SECURITY WARNING:')} ${chalk.yellow(message)}`);
     }
 
     // Success messages with context
     operationSuccess(operation: string, details?: string): void {
-        console.log(`\n${chalk.green('✅ ' + operation + ' completed successfully!')}`);
+        this.write(`\n${chalk.green('✅ ' + operation + ' completed successfully!')}`);
         if (details) {
-            console.log(chalk.white(`   ${details}`));
+            this.write(chalk.white(`   ${details}`));
         }
     }
 
@@ -191,6 +201,10 @@ class Logger {
         this.config.showEmojis = show;
     }
 
+    setUseStderr(use: boolean): void {
+        this.config.useStderr = use;
+    }
+
     // Specialized logging methods for common scenarios
     authSuccess(username: string): void {
         this.success(LogCategory.AUTH, `Authentication successful for user: ${username}`);
@@ -210,10 +224,10 @@ class Logger {
         this.info(LogCategory.WALLET, `Found ${accounts} account(s)`);
     }
 
-    transactionSent(hash: string, to: string, amount: string): void {
+    transactionSent(hash: string, to: string, amount: string, unit: string = 'ETH'): void {
         this.success(LogCategory.TRANSACTION, `Transaction sent successfully`);
         this.info(LogCategory.TRANSACTION, `Hash: ${hash}`);
-        this.info(LogCategory.TRANSACTION, `To: ${to}, Amount: ${amount} ETH`);
+        this.info(LogCategory.TRANSACTION, `To: ${to}, Amount: ${amount} ${unit}`);
     }
 
     transactionConfirmed(hash: string, blockNumber: number, gasUsed: string): void {
@@ -271,7 +285,7 @@ export const log = {
     authFailed: (attempt: number, maxAttempts: number) => logger.authFailed(attempt, maxAttempts),
     walletCreated: (name: string, address: string) => logger.walletCreated(name, address),
     walletImported: (name: string, accounts: number) => logger.walletImported(name, accounts),
-    transactionSent: (hash: string, to: string, amount: string) => logger.transactionSent(hash, to, amount),
+    transactionSent: (hash: string, to: string, amount: string, unit?: string) => logger.transactionSent(hash, to, amount, unit),
     transactionConfirmed: (hash: string, blockNumber: number, gasUsed: string) => logger.transactionConfirmed(hash, blockNumber, gasUsed),
     airdropProgress: (current: number, total: number, recipient: string) => logger.airdropProgress(current, total, recipient),
     airdropComplete: (successful: number, failed: number, total: number) => logger.airdropComplete(successful, failed, total),
@@ -0,0 +1,136 @@
+/**
+ * BIP-39 mnemonic validation for EtherVault3 CLI
+ * Word counts, wordlist detection across the languages ethers ships, close-match suggestions and the checksum
+ */
+
+import { ethers, wordlists } from "ethers";
+import type { Wordlist } from "ethers";
+
+export const MNEMONIC_WORD_COUNTS = [12, 15, 18, 21, 24];
+
+export const DEFAULT_WORDLIST = "en";
+
+// ethers wordlist locales; English first so it is offered first when a phrase fits several lists
+export const WORDLIST_NAMES: { [locale: string]: string } = {
+    en: "English",
+    es: "Spanish",
+    fr: "French",
+    it: "Italian",
+    pt: "Portuguese",
+    cz: "Czech",
+    ja: "Japanese",
+    ko: "Korean",
+    zh_cn: "Chinese (Simplified)",
+    zh_tw: "Chinese (Traditional)"
+};
+
+export interface CheckedMnemonic {
+    phrase: string; // Normalized and joined the way the wordlist expects
+    locale: string;
+    candidates: string[]; // Every wordlist whose checksum the phrase passes; the user picks when there is more than one
+}
+
+export function getWordlist(locale: string = DEFAULT_WORDLIST): Wordlist {
+    const wordlist = (wordlists as { [locale: string]: Wordlist })[locale];
+    if (!wordlist) {
+        throw new Error(`Unknown mnemonic wordlist: ${locale}`);
+    }
+    return wordlist;
+}
+
+export function describeWordlist(locale: string = DEFAULT_WORDLIST): string {
+    return WORDLIST_NAMES[locale] ?? locale;
+}
+
+// Mnemonic object for a stored phrase, in the wordlist it was saved with
+export function mnemonicFromPhrase(phrase: string, passphrase: string = "", locale: string = DEFAULT_WORDLIST): ethers.Mnemonic {
+    return ethers.Mnemonic.fromPhrase(phrase, passphrase, getWordlist(locale));
+}
+
+// The one comparison form for mnemonic words, shared by import validation and the backup quiz
+export function normalizeWord(word: string): string {
+    return word.trim().normalize('NFKD').toLowerCase();
+}
+
+// Splits on any whitespace, including the ideographic space Japanese phrases use
+export function splitPhrase(input: string): string[] {
+    return input.trim().split(/[\s\u3000]+/).filter(word => word.length > 0).map(normalizeWord);
+}
+
+function wordsOf(wordlist: Wordlist): string[] {
+    return Array.from({ length: 2048 }, (_, i) => normalizeWord(wordlist.getWord(i)));
+}
+
+function isWord(wordlist: Wordlist, word: string): boolean {
+    return wordlist.getWordIndex(word) !== -1;
+}
+
+// Edits between two words, counting a swap of neighbouring letters as one
+function editDistance(a: string, b: string): number {
+    const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i]);
+    for (let j = 1; j <= b.length; j++) {
+        d[0]![j] = j;
+    }
+    for (let i = 1; i <= a.length; i++) {
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            d[i]![j] = Math.min(d[i - 1]![j]! + 1, d[i]![j - 1]! + 1, d[i - 1]![j - 1]! + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                d[i]![j] = Math.min(d[i]![j]!, d[i - 2]![j - 2]! + 1);
+            }
+        }
+    }
+    return d[a.length]![b.length]!;
+}
+
+// Words starting with the input first (BIP-39 words are unique by their first four letters), then near misses
+export function suggestWords(word: string, locale: string = DEFAULT_WORDLIST, limit = 3): string[] {
+    const typed = normalizeWord(word);
+    const words = wordsOf(getWordlist(locale));
+    const prefixed = typed.length >= 3 ? words.filter(w => w.startsWith(typed.slice(0, 4))) : [];
+    const close = words
+        .map(w => ({ word: w, distance: editDistance(typed, w) }))
+        .filter(c => c.distance <= 2)
+        .sort((a, b) => a.distance - b.distance)
+        .map(c => c.word);
+    return [...new Set([...prefixed, ...close])].slice(0, limit);
+}
+
+// Wordlist entries beginning with what has been typed so far
+export function completeWord(prefix: string, locale: string = DEFAULT_WORDLIST, limit = 10): string[] {
+    const typed = normalizeWord(prefix);
+    return wordsOf(getWordlist(locale)).filter(w => w.startsWith(typed)).slice(0, limit);
+}
+
+// Throws a message naming every problem; the checksum is verified once all words are known
+export function checkMnemonic(input: string, locale?: string): CheckedMnemonic {
+    const words = splitPhrase(input);
+    if (!MNEMONIC_WORD_COUNTS.includes(words.length)) {
+        throw new Error(`Invalid mnemonic: ${words.length} word(s); a BIP-39 phrase has ${MNEMONIC_WORD_COUNTS.join(', ')} words`);
+    }
+
+    const locales = locale ? [locale] : Object.keys(WORDLIST_NAMES);
+    const complete = locales.filter(l => words.every(word => isWord(getWordlist(l), word)));
+    if (complete.length === 0) {
+        // Report against the list most of the words came from
+        const best = locales
+            .map(l => ({ locale: l, known: words.filter(word => isWord(getWordlist(l), word)).length }))
+            .reduce((a, b) => (b.known > a.known ? b : a));
+        const problems = words
+            .map((word, i) => ({ word, position: i + 1 }))
+            .filter(({ word }) => !isWord(getWordlist(best.locale), word))
+            .map(({ word, position }) => {
+                const suggestions = suggestWords(word, best.locale);
+                return `#${position} "${word}"${suggestions.length > 0 ? ` (did you mean ${suggestions.join(', ')}?)` : ''}`;
+            });
+        throw new Error(`Invalid mnemonic: not in the ${describeWordlist(best.locale)} wordlist: ${problems.join('; ')}`);
+    }
+
+    // Simplified and Traditional Chinese share 1275 words, so a phrase can pass the checksum in both
+    const candidates = complete.filter(candidate => ethers.Mnemonic.isValidMnemonic(getWordlist(candidate).join(words), getWordlist(candidate)));
+    const [first] = candidates;
+    if (first) {
+        return { phrase: getWordlist(first).join(words), locale: first, candidates };
+    }
+    throw new Error("Invalid mnemonic: checksum mismatch. Every word is valid, but one is wrong or the words are out of order");
+}
@@ -1,42 +1,130 @@
 import * as dotenv from "dotenv";
+import { secureStorage } from "./storage.js";
 
-dotenv.config();
+dotenv.config({ quiet: true });
 
 const INFURA_PROJECT_ID = process.env.INFURA_PROJECT_ID as string | undefined;
 
-// Optional custom RPCs from env
+// Optional custom RPCs from env (comma-separated for several endpoints)
 const CUSTOM_SEPOLIA_RPC = process.env.CUSTOM_SEPOLIA_RPC as string | undefined;
 const CUSTOM_GOERLI_RPC = process.env.CUSTOM_GOERLI_RPC as string | undefined;
 const CUSTOM_MAINNET_RPC = process.env.CUSTOM_MAINNET_RPC as string | undefined;
 
+// Public fallbacks are skipped when a custom RPC is set, so private RPC users don't leak requests to them, unless opted in
+const PUBLIC_RPC_FALLBACK = process.env.PUBLIC_RPC_FALLBACK === "true";
+
 // Public fallback RPCs (no API key required). Note: subject to rate limits and reliability.
 const PUBLIC_FALLBACKS = {
-    sepolia: "https://rpc.sepolia.org",
-    goerli: "https://rpc.ankr.com/eth_goerli",
-    mainnet: "https://cloudflare-eth.com"
+    sepolia: ["https://rpc.sepolia.org", "https://ethereum-sepolia-rpc.publicnode.com"],
+    goerli: ["https://rpc.ankr.com/eth_goerli"],
+    mainnet: ["https://cloudflare-eth.com", "https://ethereum-rpc.publicnode.com"]
 };
 
-function resolveRpc(network: "sepolia" | "goerli" | "mainnet"): string {
-    // 1) Custom RPC from env (highest priority)
-    if (network === "sepolia" && CUSTOM_SEPOLIA_RPC) return CUSTOM_SEPOLIA_RPC;
-    if (network === "goerli" && CUSTOM_GOERLI_RPC) return CUSTOM_GOERLI_RPC;
-    if (network === "mainnet" && CUSTOM_MAINNET_RPC) return CUSTOM_MAINNET_RPC;
+function splitUrls(value: string | undefined): string[] {
+    return (value ?? "").split(",").map(url => url.trim()).filter(url => url.length > 0);
+}
+
+// Ordered endpoints for a built-in network; later ones are failover targets
+function resolveRpcs(network: "sepolia" | "goerli" | "mainnet"): string[] {
+    const custom = splitUrls({ sepolia: CUSTOM_SEPOLIA_RPC, goerli: CUSTOM_GOERLI_RPC, mainnet: CUSTOM_MAINNET_RPC }[network]);
+
+    // 1) Custom RPCs from env (highest priority)
+    const urls: string[] = [...custom];
 
     // 2) Infura if project ID is provided
     if (INFURA_PROJECT_ID) {
-        const base = network === "mainnet" ? "mainnet" : network;
-        return `https://${base}.infura.io/v3/${INFURA_PROJECT_ID}`;
+        urls.push(`https://${network}.infura.io/v3/${INFURA_PROJECT_ID}`);
     }
 
-    // 3) Public fallback
-    return PUBLIC_FALLBACKS[network];
+    // 3) Public fallbacks, unless a custom RPC is configured
+    if (custom.length === 0 || PUBLIC_RPC_FALLBACK) {
+        urls.push(...PUBLIC_FALLBACKS[network]);
+    }
+    return [...new Set(urls)];
 }
 
-export const NETWORKS: { [key: string]: string } = {
-    sepolia: resolveRpc("sepolia"),
-    goerli: resolveRpc("goerli"),
-    mainnet: resolveRpc("mainnet")
+// Built-in networks; RPCs come from the environment
+export const NETWORKS: { [key: string]: string[] } = {
+    sepolia: resolveRpcs("sepolia"),
+    goerli: resolveRpcs("goerli"),
+    mainnet: resolveRpcs("mainnet")
 };
 
-// add custom providers & networks here as required
+export interface NetworkConfig {
+    name: string;
+    rpcUrl: string; // Primary endpoint
+    fallbackRpcUrls?: string[]; // Tried in order when the primary fails
+    chainId: number;
+    currencySymbol: string;
+    explorerUrl?: string; // Block explorer base URL, e.g. https://sepolia.etherscan.io
+}
+
+const BUILTIN_DETAILS: { [key: string]: Omit<NetworkConfig, 'name' | 'rpcUrl' | 'fallbackRpcUrls'> } = {
+    sepolia: { chainId: 11155111, currencySymbol: "ETH", explorerUrl: "https://sepolia.etherscan.io" },
+    goerli: { chainId: 5, currencySymbol: "ETH", explorerUrl: "https://goerli.etherscan.io" },
+    mainnet: { chainId: 1, currencySymbol: "ETH", explorerUrl: "https://etherscan.io" }
+};
+
+export function isBuiltinNetwork(name: string): boolean {
+    return Object.prototype.hasOwnProperty.call(NETWORKS, name);
+}
+
+// User-defined networks saved in config.json
+export function getCustomNetworks(): NetworkConfig[] {
+    return secureStorage.getConfig().networks ?? [];
+}
+
+// Built-in networks first, then custom ones in the order they were added
+export function getNetworks(): NetworkConfig[] {
+    const builtins = Object.entries(NETWORKS).map(([name, [rpcUrl = "", ...fallbackRpcUrls]]) => ({
+        name,
+        rpcUrl,
+        ...(fallbackRpcUrls.length > 0 && { fallbackRpcUrls }),
+        ...BUILTIN_DETAILS[name]!
+    }));
+    return [...builtins, ...getCustomNetworks()];
+}
+
+export function getNetworkNames(): string[] {
+    return getNetworks().map(n => n.name);
+}
+
+export function getNetwork(name: string): NetworkConfig | undefined {
+    return getNetworks().find(n => n.name === name);
+}
+
+// Primary RPC first, then the fallbacks
+export function getRpcUrls(name: string): string[] {
+    const network = getNetwork(name);
+    return network ? [network.rpcUrl, ...(network.fallbackRpcUrls ?? [])] : [];
+}
+
+export function getCurrencySymbol(name: string): string {
+    return getNetwork(name)?.currencySymbol ?? "ETH";
+}
+
+export function explorerTxUrl(name: string, hash: string): string | null {
+    const explorer = getNetwork(name)?.explorerUrl;
+    return explorer ? `${explorer.replace(/\/+$/, '')}/tx/${hash}` : null;
+}
+
+// Add a custom network, or replace the one with the same name
+export function saveCustomNetwork(network: NetworkConfig): void {
+    if (isBuiltinNetwork(network.name)) {
+        throw new Error(`"${network.name}" is a built-in network. Use the environment variables to change its RPC.`);
+    }
+    const networks = getCustomNetworks().filter(n => n.name !== network.name);
+    networks.push(network);
+    secureStorage.updateConfig({ networks });
+}
+
+export function removeCustomNetwork(name: string): boolean {
+    const networks = getCustomNetworks();
+    const remaining = networks.filter(n => n.name !== name);
+    if (remaining.length === networks.length) {
+        return false;
+    }
+    secureStorage.updateConfig({ networks: remaining });
+    return true;
+}
 
@@ -0,0 +1,245 @@
+/**
+ * NFT (ERC-721 / ERC-1155) collections for EtherVault3 CLI
+ * User-registered collections per network, ownership lookup, metadata and transfer encoding
+ */
+
+import { ethers } from "ethers";
+import { secureStorage } from "./storage.js";
+
+export type NftStandard = 'erc721' | 'erc1155';
+
+export interface NftCollection {
+    address: string; // Checksummed contract address
+    standard: NftStandard;
+    name?: string;
+    symbol?: string;
+    tokenIds?: string[]; // Token IDs to check when the contract can't enumerate holdings
+}
+
+export interface OwnedNft {
+    collection: NftCollection;
+    tokenId: string;
+    balance: string; // Always "1" for ERC-721
+}
+
+export interface NftMetadata {
+    uri: string;
+    name?: string;
+    description?: string;
+    image?: string;
+}
+
+const ERC165_ABI = [
+    "function supportsInterface(bytes4 interfaceId) view returns (bool)"
+];
+
+export const ERC721_ABI = [
+    "function name() view returns (string)",
+    "function symbol() view returns (string)",
+    "function balanceOf(address owner) view returns (uint256)",
+    "function ownerOf(uint256 tokenId) view returns (address)",
+    "function tokenURI(uint256 tokenId) view returns (string)",
+    "function tokenOfOwnerByIndex(address owner, uint256 index) view returns (uint256)",
+    "function safeTransferFrom(address from, address to, uint256 tokenId)"
+];
+
+export const ERC1155_ABI = [
+    "function balanceOfBatch(address[] accounts, uint256[] ids) view returns (uint256[])",
+    "function uri(uint256 id) view returns (string)",
+    "function safeTransferFrom(address from, address to, uint256 id, uint256 amount, bytes data)"
+];
+
+const INTERFACE_IDS = {
+    erc721: "0x80ac58cd",
+    erc721Enumerable: "0x780e9d63",
+    erc1155: "0xd9b67a26"
+};
+
+// Upper bound on tokens enumerated per ERC-721 collection
+const MAX_ENUMERATED_TOKENS = 100;
+
+const IPFS_GATEWAY = "https://ipfs.io/ipfs/";
+const METADATA_TIMEOUT_MS = 5000;
+
+export function getNftCollections(network: string): NftCollection[] {
+    return secureStorage.getConfig().nfts?.[network] ?? [];
+}
+
+export function saveNftCollection(network: string, collection: NftCollection): void {
+    const config = secureStorage.getConfig();
+    const nfts = { ...(config.nfts ?? {}) };
+    const list = (nfts[network] ?? []).filter(c => c.address.toLowerCase() !== collection.address.toLowerCase());
+    list.push(collection);
+    nfts[network] = list;
+    secureStorage.updateConfig({ nfts });
+}
+
+async function supportsInterface(provider: ethers.Provider, address: string, interfaceId: string): Promise<boolean> {
+    try {
+        const contract = new ethers.Contract(address, ERC165_ABI, provider);
+        return await contract.getFunction("supportsInterface")(interfaceId);
+    } catch {
+        return false;
+    }
+}
+
+// Identify the collection standard through ERC-165 and read its optional name/symbol
+export async function detectNftCollection(provider: ethers.Provider, address: string): Promise<NftCollection> {
+    let checksummed: string;
+    try {
+        checksummed = ethers.getAddress(address.trim());
+    } catch {
+        throw new Error(`Invalid address: ${address}`);
+    }
+
+    let standard: NftStandard;
+    if (await supportsInterface(provider, checksummed, INTERFACE_IDS.erc721)) {
+        standard = 'erc721';
+    } else if (await supportsInterface(provider, checksummed, INTERFACE_IDS.erc1155)) {
+        standard = 'erc1155';
+    } else {
+        throw new Error(`Contract at ${checksummed} does not report ERC-721 or ERC-1155 support`);
+    }
+
+    const collection: NftCollection = { address: checksummed, standard };
+    const metadata = new ethers.Contract(checksummed, ERC721_ABI, provider);
+    try {
+        collection.name = await metadata.getFunction("name")();
+    } catch {
+        // name() is optional
+    }
+    try {
+        collection.symbol = await metadata.getFunction("symbol")();
+    } catch {
+        // symbol() is optional
+    }
+    return collection;
+}
+
+export async function isEnumerable(provider: ethers.Provider, collection: NftCollection): Promise<boolean> {
+    return collection.standard === 'erc721'
+        && supportsInterface(provider, collection.address, INTERFACE_IDS.erc721Enumerable);
+}
+
+async function ownedInCollection(provider: ethers.Provider, collection: NftCollection, owner: string): Promise<OwnedNft[]> {
+    const tracked = collection.tokenIds ?? [];
+
+    if (collection.standard === 'erc1155') {
+        if (tracked.length === 0) {
+            return [];
+        }
+        const contract = new ethers.Contract(collection.address, ERC1155_ABI, provider);
+        const balances: bigint[] = await contract.getFunction("balanceOfBatch")(tracked.map(() => owner), tracked);
+        return tracked
+            .map((tokenId, i) => ({ collection, tokenId, balance: (balances[i] ?? 0n).toString() }))
+            .filter(nft => nft.balance !== "0");
+    }
+
+    const contract = new ethers.Contract(collection.address, ERC721_ABI, provider);
+    const owned = new Set<string>();
+
+    if (await isEnumerable(provider, collection)) {
+        const balance: bigint = await contract.getFunction("balanceOf")(owner);
+        const count = Math.min(Number(balance), MAX_ENUMERATED_TOKENS);
+        for (let i = 0; i < count; i++) {
+            const tokenId: bigint = await contract.getFunction("tokenOfOwnerByIndex")(owner, i);
+            owned.add(tokenId.toString());
+        }
+    }
+
+    for (const tokenId of tracked) {
+        if (owned.has(tokenId)) {
+            continue;
+        }
+        try {
+            const holder: string = await contract.getFunction("ownerOf")(tokenId);
+            if (holder.toLowerCase() === owner.toLowerCase()) {
+                owned.add(tokenId);
+            }
+        } catch {
+            // Burned or never minted
+        }
+    }
+
+    return [...owned].map(tokenId => ({ collection, tokenId, balance: "1" }));
+}
+
+// Every NFT the owner holds across the registered collections; unreachable collections are skipped
+export async function getOwnedNfts(provider: ethers.Provider, network: string, owner: string): Promise<OwnedNft[]> {
+    const results = await Promise.allSettled(
+        getNftCollections(network).map(collection => ownedInCollection(provider, collection, owner))
+    );
+    return results
+        .filter((r): r is PromiseFulfilledResult<OwnedNft[]> => r.status === 'fulfilled')
+        .flatMap(r => r.value);
+}
+
+function resolveMetadataUri(uri: string, tokenId: string): string {
+    // ERC-1155 clients substitute {id} with the lowercase, 64-char hex token ID
+    const hexId = BigInt(tokenId).toString(16).padStart(64, '0');
+    const substituted = uri.replace('{id}', hexId);
+    if (substituted.startsWith('ipfs://')) {
+        return IPFS_GATEWAY + substituted.slice('ipfs://'.length).replace(/^ipfs\//, '');
+    }
+    return substituted;
+}
+
+async function fetchJson(uri: string): Promise<any> {
+    if (uri.startsWith('data:application/json')) {
+        const [header, payload = ''] = uri.split(',', 2);
+        const json = header!.includes(';base64')
+            ? Buffer.from(payload, 'base64').toString('utf8')
+            : decodeURIComponent(payload);
+        return JSON.parse(json);
+    }
+    if (!/^https?:\/\//.test(uri)) {
+        throw new Error(`Unsupported metadata URI: ${uri}`);
+    }
+    const response = await fetch(uri, { signal: AbortSignal.timeout(METADATA_TIMEOUT_MS) });
+    if (!response.ok) {
+        throw new Error(`Metadata request failed with HTTP ${response.status}`);
+    }
+    return response.json();
+}
+
+// tokenURI/uri plus the JSON it points to, when that can be fetched
+export async function fetchNftMetadata(provider: ethers.Provider, nft: OwnedNft): Promise<NftMetadata | null> {
+    let uri: string;
+    try {
+        if (nft.collection.standard === 'erc721') {
+            const contract = new ethers.Contract(nft.collection.address, ERC721_ABI, provider);
+            uri = await contract.getFunction("tokenURI")(nft.tokenId);
+        } else {
+            const contract = new ethers.Contract(nft.collection.address, ERC1155_ABI, provider);
+            uri = await contract.getFunction("uri")(nft.tokenId);
+        }
+    } catch {
+        return null;
+    }
+
+    const resolved = resolveMetadataUri(uri, nft.tokenId);
+    try {
+        const json = await fetchJson(resolved);
+        return {
+            uri: resolved,
+            ...(typeof json?.name === 'string' && { name: json.name }),
+            ...(typeof json?.description === 'string' && { description: json.description }),
+            ...(typeof json?.image === 'string' && { image: resolveMetadataUri(json.image, nft.tokenId) })
+        };
+    } catch {
+        return { uri: resolved };
+    }
+}
+
+export function encodeNftTransfer(collection: NftCollection, from: string, to: string, tokenId: string, amount: bigint): string {
+    if (collection.standard === 'erc721') {
+        return new ethers.Interface(ERC721_ABI).encodeFunctionData(
+            "safeTransferFrom(address,address,uint256)",
+            [from, to, tokenId]
+        );
+    }
+    return new ethers.Interface(ERC1155_ABI).encodeFunctionData(
+        "safeTransferFrom",
+        [from, to, tokenId, amount, "0x"]
+    );
+}
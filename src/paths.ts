@@ -0,0 +1,63 @@
+/**
+ * Derivation path templates for EtherVault3 CLI
+ * Where each HD scheme keeps account x: BIP44 standard, Ledger Live, legacy MEW, or a custom template
+ */
+
+export interface PathTemplate {
+    name: string;
+    template: string; // "x" marks the account index, e.g. "m/44'/60'/0'/0/x"
+}
+
+export const DEFAULT_PATH_TEMPLATE = "m/44'/60'/0'/0/x";
+
+export const PATH_TEMPLATES: PathTemplate[] = [
+    { name: "BIP44 standard (MetaMask, Trezor, Ledger Ethereum app)", template: DEFAULT_PATH_TEMPLATE },
+    { name: "Ledger Live", template: "m/44'/60'/x'/0/0" },
+    { name: "Legacy MEW / MyCrypto", template: "m/44'/60'/0'/x" }
+];
+
+const HARDENED_LIMIT = 2 ** 31;
+
+// Throws unless the template is an absolute path with exactly one "x" segment
+export function validatePathTemplate(template: string): string {
+    const trimmed = template.trim();
+    const segments = trimmed.split('/');
+    if (segments[0] !== 'm' || segments.length < 2) {
+        throw new Error(`Invalid path template "${trimmed}": must start with "m/"`);
+    }
+    let placeholders = 0;
+    for (const segment of segments.slice(1)) {
+        const match = /^(x|\d+)'?$/.exec(segment);
+        if (!match) {
+            throw new Error(`Invalid path template "${trimmed}": bad segment "${segment}"`);
+        }
+        if (match[1] === 'x') {
+            placeholders++;
+        } else if (Number(match[1]) >= HARDENED_LIMIT) {
+            throw new Error(`Invalid path template "${trimmed}": index ${match[1]} is too large`);
+        }
+    }
+    if (placeholders !== 1) {
+        throw new Error(`Invalid path template "${trimmed}": use "x" exactly once for the account index`);
+    }
+    return trimmed;
+}
+
+export function derivationPath(template: string, index: number): string {
+    return template.replace(/(^|\/)x('?)(?=\/|$)/, `$1${index}$2`);
+}
+
+export function describePathTemplate(template: string): string {
+    const known = PATH_TEMPLATES.find(t => t.template === template);
+    return known ? `${known.name} (${template})` : `Custom (${template})`;
+}
+
+// Lowest account index whose path isn't taken yet, so a new account never repeats one
+export function nextPathIndex(template: string, usedPaths: Array<string | undefined>): number {
+    const used = new Set(usedPaths);
+    let index = 0;
+    while (used.has(derivationPath(template, index))) {
+        index++;
+    }
+    return index;
+}
@@ -0,0 +1,391 @@
+/**
+ * Shared RPC provider for EtherVault3 CLI
+ * Ordered RPC endpoints per network with retry, exponential backoff, health checks and failover
+ */
+
+import { ethers } from "ethers";
+import { getNetwork, getRpcUrls } from "./networks.js";
+import { log, LogCategory } from "./logger.js";
+
+export interface FailoverOptions {
+    retries: number; // Extra attempts per endpoint before failing over
+    baseDelayMs: number; // First backoff delay; doubles on every retry
+    maxDelayMs: number;
+    timeoutMs: number; // Per request
+    cooldownMs: number; // How long a failed endpoint is tried only as a last resort
+}
+
+export interface EndpointHealth {
+    url: string;
+    ok: boolean;
+    chainId?: number;
+    blockNumber?: number;
+    latencyMs: number;
+    error?: string;
+}
+
+export const DEFAULT_FAILOVER_OPTIONS: FailoverOptions = {
+    retries: 2,
+    baseDelayMs: 250,
+    maxDelayMs: 4000,
+    timeoutMs: 10000,
+    cooldownMs: 30000
+};
+
+// JSON-RPC error codes that mean "this endpoint is struggling", not "the request is wrong".
+// -32603 is also what some nodes return for a revert in eth_call/eth_estimateGas; see isRetryable
+const RETRYABLE_RPC_CODES = new Set([-32005, -32603]);
+
+// Sent to one endpoint, once: repeating a broadcast that timed out can reach the network twice
+const NON_IDEMPOTENT_METHODS = new Set(["eth_sendRawTransaction", "eth_sendTransaction"]);
+
+// Node replies meaning the raw transaction is already in the pool, or possibly already mined
+const ALREADY_KNOWN = /already known|known transaction|already imported|already exists/i;
+const NONCE_TOO_LOW = /nonce too low/i;
+
+// Failures where the endpoint never saw the request (refused, unresolvable, rate limited)
+const UNSENT_ERROR_CODES = new Set(["ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN"]);
+
+export interface ResolvedChain {
+    network: string;
+    chainId: number;
+    rpcHost: string; // Endpoint that answered, without credentials
+}
+
+interface Endpoint {
+    url: string;
+    unhealthyUntil: number; // Epoch ms; 0 when healthy
+    chainId?: number; // Reported chain ID once checked
+}
+
+// Transport failure or overloaded endpoint; anything else is returned to ethers as-is.
+// `unsent` means the endpoint certainly did not act on the request, so a broadcast may go elsewhere
+class EndpointError extends Error {
+    constructor(message: string, readonly unsent = false) {
+        super(message);
+    }
+}
+
+export class ChainMismatchError extends Error {
+    constructor(public readonly network: string, public readonly expected: number, public readonly actual: number[]) {
+        super(`Chain ID mismatch on ${network}: RPC reports ${actual.join(', ')}, expected ${expected}. Refusing to continue; check the RPC configuration.`);
+        this.name = 'ChainMismatchError';
+    }
+}
+
+function delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export function backoffDelay(attempt: number, options: Pick<FailoverOptions, 'baseDelayMs' | 'maxDelayMs'>): number {
+    return Math.min(options.baseDelayMs * 2 ** attempt, options.maxDelayMs);
+}
+
+// Strip credentials such as Infura project IDs before URLs reach the logs
+function redactUrl(url: string): string {
+    try {
+        const parsed = new URL(url);
+        return `${parsed.protocol}//${parsed.host}`;
+    } catch {
+        return url;
+    }
+}
+
+async function postJson(url: string, body: unknown, timeoutMs: number): Promise<any> {
+    let response: Response;
+    try {
+        response = await fetch(url, {
+            method: "POST",
+            headers: { "content-type": "application/json" },
+            body: JSON.stringify(body),
+            signal: AbortSignal.timeout(timeoutMs)
+        });
+    } catch (error: any) {
+        throw new EndpointError(
+            error?.name === 'TimeoutError' ? `timed out after ${timeoutMs}ms` : (error?.message ?? String(error)),
+            UNSENT_ERROR_CODES.has(error?.cause?.code)
+        );
+    }
+    if (!response.ok) {
+        throw new EndpointError(`HTTP ${response.status}`, response.status === 429);
+    }
+    try {
+        return await response.json();
+    } catch {
+        throw new EndpointError("invalid JSON response");
+    }
+}
+
+// A revert carries its reason as `data` (or says so in the message) and fails the same way on every endpoint
+function isRetryable(error: { code?: number; message?: string; data?: unknown } | undefined): boolean {
+    if (!error || error.code === undefined || !RETRYABLE_RPC_CODES.has(error.code)) {
+        return false;
+    }
+    return !(error.code === -32603 && (error.data !== undefined || /revert/i.test(error.message ?? '')));
+}
+
+function rawTransactionHash(payload: ethers.JsonRpcPayload): string {
+    return ethers.keccak256((payload.params as string[])[0]!);
+}
+
+export class FailoverProvider extends ethers.JsonRpcApiProvider {
+    private readonly endpoints: Endpoint[];
+    private readonly options: FailoverOptions;
+    private readonly expected: ethers.Network | undefined;
+    private lastEndpoint: Endpoint | null = null;
+
+    constructor(urls: string[], network?: ethers.Network, options: Partial<FailoverOptions> = {}) {
+        if (urls.length === 0) {
+            throw new Error("At least one RPC URL is required");
+        }
+        // A known chain skips ethers' endless start-up detection loop when every endpoint is down
+        super(network, network ? { staticNetwork: network } : {});
+        this.endpoints = urls.map(url => ({ url, unhealthyUntil: 0 }));
+        this.options = { ...DEFAULT_FAILOVER_OPTIONS, ...options };
+        this.expected = network;
+    }
+
+    get urls(): string[] {
+        return this.endpoints.map(e => e.url);
+    }
+
+    private isWrongChain(endpoint: Endpoint): boolean {
+        return this.expected !== undefined && endpoint.chainId !== undefined && BigInt(endpoint.chainId) !== this.expected.chainId;
+    }
+
+    // Healthy endpoints in configured order, then cooling-down ones as a last resort; wrong-chain ones never
+    private orderedEndpoints(): Endpoint[] {
+        const now = Date.now();
+        const usable = this.endpoints.filter(e => !this.isWrongChain(e));
+        return [
+            ...usable.filter(e => e.unhealthyUntil <= now),
+            ...usable.filter(e => e.unhealthyUntil > now)
+        ];
+    }
+
+    private assertSomeOnChain(): void {
+        const wrongChains = this.endpoints.filter(e => this.isWrongChain(e)).map(e => e.chainId!);
+        if (this.expected && wrongChains.length === this.endpoints.length) {
+            throw new ChainMismatchError(this.expected.name, Number(this.expected.chainId), [...new Set(wrongChains)]);
+        }
+    }
+
+    // Ask an endpoint for its chain ID once, before it serves anything else
+    private async checkChain(endpoint: Endpoint): Promise<void> {
+        if (!this.expected || endpoint.chainId !== undefined) {
+            return;
+        }
+        const response = await postJson(endpoint.url, { jsonrpc: "2.0", id: 1, method: "eth_chainId", params: [] }, this.options.timeoutMs);
+        if (typeof response?.result !== 'string') {
+            throw new EndpointError(`no chain ID (${response?.error?.message ?? 'unexpected response'})`);
+        }
+        endpoint.chainId = Number(BigInt(response.result));
+        if (this.isWrongChain(endpoint)) {
+            log.error(LogCategory.NETWORK, `RPC ${redactUrl(endpoint.url)} is on chain ${endpoint.chainId}, expected ${this.expected.chainId} for ${this.expected.name}`);
+        }
+    }
+
+    private async request(endpoint: Endpoint, payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]): Promise<Array<ethers.JsonRpcResult | ethers.JsonRpcError>> {
+        try {
+            await this.checkChain(endpoint);
+        } catch (error) {
+            throw error instanceof EndpointError ? new EndpointError(error.message, true) : error;
+        }
+        if (this.isWrongChain(endpoint)) {
+            throw new EndpointError(`wrong chain ${endpoint.chainId}`, true);
+        }
+        const response = await postJson(endpoint.url, payload, this.options.timeoutMs);
+        const results: any[] = Array.isArray(response) ? response : [response];
+        const overloaded = results.find(r => isRetryable(r?.error));
+        if (overloaded) {
+            throw new EndpointError(`RPC error ${overloaded.error.code}: ${overloaded.error.message ?? 'unknown'}`, true);
+        }
+        return results;
+    }
+
+    async _send(payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]): Promise<Array<ethers.JsonRpcResult | ethers.JsonRpcError>> {
+        // ethers batches broadcasts with other calls; split them off so only the rest is retried
+        const payloads = Array.isArray(payload) ? payload : [payload];
+        const broadcasts = payloads.filter(p => NON_IDEMPOTENT_METHODS.has(p.method));
+        if (broadcasts.length > 0) {
+            const others = payloads.filter(p => !NON_IDEMPOTENT_METHODS.has(p.method));
+            const results = await Promise.all([
+                ...(others.length > 0 ? [this._send(others)] : []),
+                ...broadcasts.map(p => this.broadcast(p))
+            ]);
+            return results.flat();
+        }
+        let lastError: unknown;
+
+        for (const endpoint of this.orderedEndpoints()) {
+            for (let attempt = 0; attempt <= this.options.retries; attempt++) {
+                try {
+                    const results = await this.request(endpoint, payload);
+                    endpoint.unhealthyUntil = 0;
+                    this.lastEndpoint = endpoint;
+                    return results;
+                } catch (error) {
+                    if (!(error instanceof EndpointError)) {
+                        throw error;
+                    }
+                    lastError = error;
+                    if (this.isWrongChain(endpoint)) {
+                        break;
+                    }
+                    if (attempt < this.options.retries) {
+                        const wait = backoffDelay(attempt, this.options);
+                        log.debug(LogCategory.NETWORK, `RPC ${redactUrl(endpoint.url)} failed (${error.message}), retrying in ${wait}ms`);
+                        await delay(wait);
+                    }
+                }
+            }
+
+            endpoint.unhealthyUntil = Date.now() + this.options.cooldownMs;
+            if (this.endpoints.length > 1) {
+                log.warn(LogCategory.NETWORK, `RPC ${redactUrl(endpoint.url)} unavailable, failing over`);
+            }
+        }
+
+        this.assertSomeOnChain();
+        throw new Error(`All RPC endpoints failed: ${(lastError as Error | undefined)?.message ?? 'no endpoints'}`);
+    }
+
+    // One attempt per broadcast; fails over only when the endpoint never saw the request
+    private async broadcast(payload: ethers.JsonRpcPayload): Promise<Array<ethers.JsonRpcResult | ethers.JsonRpcError>> {
+        let lastError: EndpointError | undefined;
+
+        for (const endpoint of this.orderedEndpoints()) {
+            try {
+                const results = await this.request(endpoint, payload);
+                endpoint.unhealthyUntil = 0;
+                this.lastEndpoint = endpoint;
+                return await Promise.all(results.map(entry => this.settleBroadcast(payload, entry)));
+            } catch (error) {
+                if (!(error instanceof EndpointError)) {
+                    throw error;
+                }
+                lastError = error;
+                endpoint.unhealthyUntil = Date.now() + this.options.cooldownMs;
+                if (!error.unsent) {
+                    break;
+                }
+                log.warn(LogCategory.NETWORK, `RPC ${redactUrl(endpoint.url)} unavailable (${error.message}), broadcasting elsewhere`);
+            }
+        }
+
+        if (lastError && !lastError.unsent) {
+            if (payload.method !== "eth_sendRawTransaction") {
+                throw new Error(`Broadcast failed: ${lastError.message}. It may still reach the network; check before sending again.`);
+            }
+            // The broadcast may have gone through; the network knows if it did
+            const hash = rawTransactionHash(payload);
+            if (await this.findTransaction(hash)) {
+                return [{ id: payload.id, result: hash }];
+            }
+            throw new Error(`Broadcast failed: ${lastError.message}. Transaction ${hash} may still reach the network; check its status before sending again.`);
+        }
+        this.assertSomeOnChain();
+        throw new Error(`All RPC endpoints failed: ${lastError?.message ?? 'no endpoints'}`);
+    }
+
+    // Turn "already known" (and "nonce too low" for a transaction the chain has) into the transaction hash
+    private async settleBroadcast(payload: ethers.JsonRpcPayload, entry: ethers.JsonRpcResult | ethers.JsonRpcError): Promise<ethers.JsonRpcResult | ethers.JsonRpcError> {
+        if (!('error' in entry) || payload.method !== "eth_sendRawTransaction") {
+            return entry;
+        }
+        const hash = rawTransactionHash(payload);
+        const message = String(entry.error?.message ?? '');
+        if (ALREADY_KNOWN.test(message) || (NONCE_TOO_LOW.test(message) && await this.findTransaction(hash))) {
+            log.debug(LogCategory.NETWORK, `Transaction ${hash} already on the network (${message})`);
+            return { id: entry.id, result: hash };
+        }
+        return entry;
+    }
+
+    private async findTransaction(hash: string): Promise<boolean> {
+        try {
+            const [entry] = await this._send({ jsonrpc: "2.0", id: 1, method: "eth_getTransactionByHash", params: [hash] });
+            return entry !== undefined && 'result' in entry && entry.result !== null;
+        } catch {
+            return false;
+        }
+    }
+
+    // Several calls in one JSON-RPC batch request, with the same retries and failover as single calls
+    async batch(calls: Array<{ method: string; params: unknown[] }>): Promise<any[]> {
+        if (calls.length === 0) {
+            return [];
+        }
+        const payload = calls.map((call, id) => ({ jsonrpc: "2.0" as const, id, method: call.method, params: call.params }));
+        const results: any[] = await this._send(payload);
+        return calls.map((call, id) => {
+            const entry = results.find(r => r?.id === id);
+            if (!entry || entry.error || !('result' in entry)) {
+                throw new Error(`${call.method} failed in batch: ${entry?.error?.message ?? 'no result (does the RPC support batch requests?)'}`);
+            }
+            return entry.result;
+        });
+    }
+
+    // Confirm the endpoint that will serve the next request is on the expected chain
+    async verifyChain(): Promise<ResolvedChain> {
+        if (!this.expected) {
+            throw new Error("Provider has no expected chain to verify against");
+        }
+        const reported = Number(BigInt(await this.send("eth_chainId", [])));
+        const expected = Number(this.expected.chainId);
+        if (reported !== expected) {
+            throw new ChainMismatchError(this.expected.name, expected, [reported]);
+        }
+        return {
+            network: this.expected.name,
+            chainId: reported,
+            rpcHost: this.lastEndpoint ? redactUrl(this.lastEndpoint.url) : 'unknown'
+        };
+    }
+}
+
+// One provider per network (and endpoint list), shared by every wallet function
+const providers = new Map<string, FailoverProvider>();
+
+export function getProvider(networkName: string): FailoverProvider {
+    const network = getNetwork(networkName);
+    if (!network) {
+        throw new Error(`Unknown network: ${networkName}`);
+    }
+
+    const urls = getRpcUrls(networkName);
+    const key = `${networkName}|${network.chainId}|${urls.join(',')}`;
+    let provider = providers.get(key);
+    if (!provider) {
+        provider = new FailoverProvider(urls, new ethers.Network(networkName, network.chainId));
+        providers.set(key, provider);
+    }
+    return provider;
+}
+
+export function describeChain(chain: ResolvedChain): string {
+    return `${chain.network} (chain ID ${chain.chainId}) via ${chain.rpcHost}`;
+}
+
+// Probe each endpoint once with eth_chainId and eth_blockNumber
+export async function checkEndpoints(urls: string[], timeoutMs = DEFAULT_FAILOVER_OPTIONS.timeoutMs): Promise<EndpointHealth[]> {
+    return Promise.all(urls.map(async url => {
+        const started = Date.now();
+        try {
+            const response = await postJson(url, [
+                { jsonrpc: "2.0", id: 1, method: "eth_chainId", params: [] },
+                { jsonrpc: "2.0", id: 2, method: "eth_blockNumber", params: [] }
+            ], timeoutMs);
+            const results: any[] = Array.isArray(response) ? response : [response];
+            const chainId = results.find(r => r?.id === 1)?.result;
+            const blockNumber = results.find(r => r?.id === 2)?.result;
+            if (typeof chainId !== 'string' || typeof blockNumber !== 'string') {
+                throw new Error(results.find(r => r?.error)?.error?.message ?? "unexpected response");
+            }
+            return { url, ok: true, chainId: Number(BigInt(chainId)), blockNumber: Number(BigInt(blockNumber)), latencyMs: Date.now() - started };
+        } catch (error: any) {
+            return { url, ok: false, latencyMs: Date.now() - started, error: error?.message ?? String(error) };
+        }
+    }));
+}
@@ -0,0 +1,158 @@
+/**
+ * Shamir secret sharing of mnemonics for EtherVault3 CLI
+ * Splits a mnemonic's entropy into N shares over GF(256), any M of which rebuild it
+ */
+
+import * as crypto from "crypto";
+import { ethers } from "ethers";
+import { checkMnemonic, getWordlist } from "./mnemonic.js";
+import type { CheckedMnemonic } from "./mnemonic.js";
+
+export const MAX_SHARES = 16;
+
+const SHARE_PREFIX = "ev3share1-";
+const SHARE_VERSION = 2;
+const CHECKSUM_BYTES = 4;
+
+// Set ID length by share version; version 1 used 2 bytes, short enough for two splits to collide
+const SET_ID_BYTES: { [version: number]: number } = { 1: 2, 2: 8 };
+
+// Wordlist recorded in each share by position; append only, never reorder
+const SHARE_WORDLISTS = ["en", "es", "fr", "it", "pt", "cz", "ja", "ko", "zh_cn", "zh_tw"];
+
+export interface MnemonicShare {
+    setId: string; // Hex; identical on every share of one split
+    threshold: number; // Shares needed to recover
+    index: number; // x coordinate, 1..MAX_SHARES
+    locale: string;
+    data: Uint8Array; // One y value per entropy byte
+}
+
+// GF(2^8) with the AES polynomial x^8 + x^4 + x^3 + x + 1, through log/exp tables of generator 3
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+{
+    let value = 1;
+    for (let i = 0; i < 255; i++) {
+        EXP[i] = value;
+        LOG[value] = i;
+        value ^= value << 1;
+        if (value & 0x100) {
+            value ^= 0x11b;
+        }
+    }
+    for (let i = 255; i < 510; i++) {
+        EXP[i] = EXP[i - 255]!;
+    }
+}
+
+function gfMul(a: number, b: number): number {
+    return a === 0 || b === 0 ? 0 : EXP[LOG[a]! + LOG[b]!]!;
+}
+
+function gfDiv(a: number, b: number): number {
+    return a === 0 ? 0 : EXP[LOG[a]! + 255 - LOG[b]!]!;
+}
+
+function checksum(payload: Uint8Array): Uint8Array {
+    return crypto.createHash("sha256").update(payload).digest().subarray(0, CHECKSUM_BYTES);
+}
+
+export function encodeShare(share: MnemonicShare): string {
+    const header = [SHARE_VERSION, ...ethers.getBytes(`0x${share.setId}`), share.threshold, share.index, SHARE_WORDLISTS.indexOf(share.locale)];
+    const payload = new Uint8Array([...header, ...share.data]);
+    return SHARE_PREFIX + ethers.hexlify(new Uint8Array([...payload, ...checksum(payload)])).slice(2);
+}
+
+// Throws on typos (checksum), other formats and impossible headers
+export function parseShare(text: string): MnemonicShare {
+    const trimmed = text.trim().toLowerCase().replace(/\s+/g, "");
+    if (!trimmed.startsWith(SHARE_PREFIX) || !/^[0-9a-f]+$/.test(trimmed.slice(SHARE_PREFIX.length))) {
+        throw new Error(`Invalid share: expected text starting with ${SHARE_PREFIX} followed by hex`);
+    }
+    const bytes = ethers.getBytes(`0x${trimmed.slice(SHARE_PREFIX.length)}`);
+    const payload = bytes.subarray(0, bytes.length - CHECKSUM_BYTES);
+    if (payload.length < 6 || !ethers.getBytes(checksum(payload)).every((b, i) => b === bytes[payload.length + i])) {
+        throw new Error("Invalid share: checksum mismatch, check it for typos");
+    }
+    const version = payload[0]!;
+    const idBytes = SET_ID_BYTES[version];
+    if (idBytes === undefined) {
+        throw new Error(`Invalid share: unsupported version ${version}`);
+    }
+    const [threshold, index, wordlist] = payload.subarray(1 + idBytes, 4 + idBytes);
+    const locale = SHARE_WORDLISTS[wordlist ?? -1];
+    if (!locale || !threshold || !index || threshold > MAX_SHARES || index > MAX_SHARES) {
+        throw new Error("Invalid share: corrupt header");
+    }
+    return {
+        setId: ethers.hexlify(payload.subarray(1, 1 + idBytes)).slice(2),
+        threshold,
+        index,
+        locale,
+        data: payload.slice(4 + idBytes)
+    };
+}
+
+export function splitMnemonic(mnemonic: Pick<CheckedMnemonic, "phrase" | "locale">, shares: number, threshold: number): string[] {
+    if (!Number.isInteger(shares) || shares < 2 || shares > MAX_SHARES) {
+        throw new Error(`Share count must be between 2 and ${MAX_SHARES}`);
+    }
+    if (!Number.isInteger(threshold) || threshold < 2 || threshold > shares) {
+        throw new Error(`Threshold must be between 2 and the share count (${shares})`);
+    }
+
+    const entropy = ethers.getBytes(ethers.Mnemonic.fromPhrase(mnemonic.phrase, null, getWordlist(mnemonic.locale)).entropy);
+    const setId = crypto.randomBytes(SET_ID_BYTES[SHARE_VERSION]!).toString("hex");
+    const data = Array.from({ length: shares }, () => new Uint8Array(entropy.length));
+
+    // One random polynomial of degree threshold - 1 per byte, with the secret byte as its constant term
+    entropy.forEach((secret, byte) => {
+        const coefficients = [secret, ...crypto.randomBytes(threshold - 1)];
+        for (let x = 1; x <= shares; x++) {
+            let y = 0;
+            for (let c = coefficients.length - 1; c >= 0; c--) {
+                y = gfMul(y, x) ^ coefficients[c]!;
+            }
+            data[x - 1]![byte] = y;
+        }
+    });
+
+    return data.map((y, i) => encodeShare({ setId, threshold, index: i + 1, locale: mnemonic.locale, data: y }));
+}
+
+// Lagrange interpolation at x = 0 over the first `threshold` shares
+export function combineShares(texts: string[]): CheckedMnemonic {
+    const shares = texts.map(parseShare);
+    const first = shares[0];
+    if (!first) {
+        throw new Error("No shares provided");
+    }
+    for (const share of shares) {
+        if (share.setId !== first.setId || share.threshold !== first.threshold || share.locale !== first.locale || share.data.length !== first.data.length) {
+            throw new Error(`Share #${share.index} belongs to a different split (set ${share.setId}, expected ${first.setId})`);
+        }
+    }
+    const distinct = [...new Map(shares.map(share => [share.index, share])).values()];
+    if (distinct.length < first.threshold) {
+        throw new Error(`Need ${first.threshold} different shares of set ${first.setId}, got ${distinct.length}`);
+    }
+
+    const used = distinct.slice(0, first.threshold);
+    const entropy = new Uint8Array(first.data.length);
+    for (let byte = 0; byte < entropy.length; byte++) {
+        let value = 0;
+        for (const share of used) {
+            let basis = 1;
+            for (const other of used) {
+                if (other.index !== share.index) {
+                    basis = gfMul(basis, gfDiv(other.index, other.index ^ share.index));
+                }
+            }
+            value ^= gfMul(share.data[byte]!, basis);
+        }
+        entropy[byte] = value;
+    }
+
+    return checkMnemonic(ethers.Mnemonic.entropyToPhrase(entropy, getWordlist(first.locale)), first.locale);
+}
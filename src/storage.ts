@@ -1,8 +1,16 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as crypto from 'crypto';
-import { HDNodeWallet } from 'ethers';
+import { HDNodeWallet, Wallet } from 'ethers';
 import { log, LogCategory } from './logger.js';
+import type { FeeMode } from './fees.js';
+import type { TokenInfo } from './tokens.js';
+import type { NftCollection, NftStandard } from './nfts.js';
+import type { NetworkConfig } from './networks.js';
+import type { DiscoveryOptions } from './discovery.js';
+import { deriveKey, formatKdfTag, parseKdfTag, LEGACY_KDF, DEFAULT_KDF } from './kdf.js';
+import type { KdfParams } from './kdf.js';
+import { DEFAULT_PATH_TEMPLATE, derivationPath } from './paths.js';
 import chalk from 'chalk';
 
 // Storage configuration
@@ -10,27 +18,62 @@ const STORAGE_DIR = path.join(process.cwd(), '.wallet-storage');
 const WALLETS_FILE = path.join(STORAGE_DIR, 'wallets.enc');
 const TRANSACTIONS_FILE = path.join(STORAGE_DIR, 'transactions.enc');
 const CONFIG_FILE = path.join(STORAGE_DIR, 'config.json');
+const SALT_FILE = path.join(STORAGE_DIR, 'salt.enc');
+const USER_FILE = path.join(STORAGE_DIR, 'user.json');
+
+// Master password rotation: new files are staged next to the originals, and the journal marks the commit point
+const ROTATION_JOURNAL = path.join(STORAGE_DIR, 'rotation.json');
+const STAGED_SUFFIX = '.new';
+
+// Every write goes to <file>.tmp first and is renamed over the original once flushed
+const TEMP_SUFFIX = '.tmp';
+
+// Previous versions of wallets.enc, named wallets-<ms since epoch>.enc after the time they were saved
+const GENERATIONS_DIR = path.join(STORAGE_DIR, 'generations');
+const GENERATION_PATTERN = /^wallets-(\d+)\.enc$/;
+export const DEFAULT_WALLET_GENERATIONS = 10;
+
+// Layout version of wallets.enc, transactions.enc and config.json; files without one are version 1
+export const SCHEMA_VERSION = 2;
+const BACKUP_DIR = path.join(STORAGE_DIR, 'backups');
 
 // Encryption configuration
 const ALGORITHM = 'aes-256-gcm';
-const KEY_LENGTH = 32; // 256 bits
 const IV_LENGTH = 16; // 128 bits
 const TAG_LENGTH = 16; // 128 bits
+const ENVELOPE_VERSION = 2;
+
+interface KeyFile {
+    version: number;
+    salt: string; // hex
+    kdf: KdfParams;
+}
 
 export interface WalletAccount {
     index: number;
     address: string;
-    publicKey: string;
-    encryptedPrivateKey: string;
-    derivationPath: string; // BIP44 path like "m/44'/60'/0'/0/0"
+    publicKey?: string; // Unknown for watched addresses that were entered directly
+    encryptedPrivateKey?: string; // Absent on watch-only accounts
+    derivationPath?: string; // BIP44 path like "m/44'/60'/0'/0/0"; HD wallets only
     balance?: string; // Current balance in ETH
     txCount?: number; // Transaction count
+    lastSyncedBlock?: number; // Last block scanned for incoming transfers
 }
 
+// 'hd' wallets derive every account from one mnemonic; 'keys' wallets hold individually imported private keys;
+// 'watch' wallets hold addresses only and can't sign
+export type WalletType = 'hd' | 'keys' | 'watch';
+
 export interface StoredWallet {
     id: string;
     name: string;
-    encryptedMnemonic: string;
+    type?: WalletType; // Absent on wallets saved before key wallets existed, which are all HD
+    encryptedMnemonic?: string; // HD wallets only
+    encryptedPassphrase?: string; // BIP-39 passphrase ("25th word"); only on HD wallets that use one
+    pathTemplate?: string; // HD wallets; where account x is derived, absent for the BIP44 standard m/44'/60'/0'/0/x
+    wordlist?: string; // HD wallets; ethers wordlist locale of the mnemonic, absent for English
+    xpub?: string; // Watch wallets made from an extended public key; account n is its 0/n child
+    backedUp?: boolean; // HD wallets; true once the user proved they wrote the mnemonic down (or typed it in to import)
     createdAt: string;
     lastUsed: string;
     network: string;
@@ -45,27 +88,164 @@ export interface TransactionRecord {
     hash: string;
     from: string;
     to: string;
-    amount: string;
+    amount: string; // ETH, or token decimal units when token is set
+    token?: string; // ERC-20 / NFT contract address for token transfers
+    tokenSymbol?: string;
+    tokenId?: string; // NFT transfers only
+    tokenStandard?: NftStandard; // NFT transfers only
+    logIndex?: number; // Token receives only; distinguishes several transfers in one tx
+    internal?: boolean; // ETH receives paid out by a contract call rather than sent by the transaction itself
     network: string;
     gasUsed: string;
-    gasPrice: string;
+    gasPrice: string; // Effective gas price paid (wei)
+    txType?: number; // 0 = legacy, 2 = EIP-1559
+    feeMode?: FeeMode;
+    maxFeePerGas?: string; // wei, EIP-1559 only
+    maxPriorityFeePerGas?: string; // wei, EIP-1559 only
     blockNumber: number;
     timestamp: string;
     status: 'pending' | 'confirmed' | 'failed';
 }
 
 export interface WalletConfig {
+    schemaVersion?: number;
     defaultNetwork: string;
     autoSave: boolean;
     encryptionEnabled: boolean;
+    tokens?: { [network: string]: TokenInfo[] }; // User-registered ERC-20 tokens
+    nfts?: { [network: string]: NftCollection[] }; // User-registered NFT collections
+    networks?: NetworkConfig[]; // User-defined networks
+    walletGenerations?: number; // Previous versions of wallets.enc to keep
+    discovery?: Partial<DiscoveryOptions>; // Account discovery limits for mnemonic imports
+}
+
+export function isHdWallet(wallet: StoredWallet): boolean {
+    return (wallet.type ?? 'hd') === 'hd';
+}
+
+export function isKeyWallet(wallet: StoredWallet): boolean {
+    return wallet.type === 'keys';
+}
+
+export function isWatchOnly(wallet: StoredWallet): boolean {
+    return wallet.type === 'watch';
+}
+
+// HD wallets saved before the backup check existed count as unverified too
+export function needsBackup(wallet: StoredWallet): boolean {
+    return isHdWallet(wallet) && wallet.backedUp !== true;
+}
+
+export interface UserProfile {
+    username: string;
+    createdAt: string;
+}
+
+export interface WalletGeneration {
+    id: string; // File name in generations/
+    savedAt: Date;
+    size: number;
+    wallets: number | null; // null when the current master password can't decrypt it
+}
+
+const DEFAULT_CONFIG: WalletConfig = {
+    defaultNetwork: 'sepolia',
+    autoSave: true,
+    encryptionEnabled: true
+};
+
+type StorageDocument = 'wallets' | 'transactions' | 'config';
+
+// One schema upgrade; each step receives the previous layout, so it must tolerate missing fields
+interface Migration {
+    version: number; // Schema version this step produces
+    description: string;
+    wallets?: (wallets: any[]) => any[];
+    transactions?: (records: any[]) => any[];
+    config?: (config: any) => any;
+}
+
+const MIGRATIONS: Migration[] = [
+    {
+        version: 2,
+        description: 'multi-account wallet layout and complete transaction records',
+        wallets: wallets => wallets.map(wallet => {
+            const { address, publicKey, encryptedPrivateKey, ...rest } = wallet;
+            // Single-account wallets kept their key on the wallet itself
+            const accounts: any[] = Array.isArray(wallet.accounts)
+                ? wallet.accounts
+                : [{ index: 0, address, publicKey, encryptedPrivateKey }];
+            // Network used to be recorded per account; the wallet's own setting wins
+            const network = wallet.network ?? accounts.find(account => account.network)?.network ?? DEFAULT_CONFIG.defaultNetwork;
+            const migrated = accounts.map((account, position) => {
+                const { network: _network, ...fields } = account;
+                const index = fields.index ?? position;
+                return { ...fields, index, derivationPath: fields.derivationPath ?? `m/44'/60'/0'/0/${index}` };
+            });
+            const current = wallet.currentAccountIndex ?? 0;
+            return {
+                ...rest,
+                network,
+                accounts: migrated,
+                currentAccountIndex: current >= 0 && current < migrated.length ? current : 0,
+                lastUsed: wallet.lastUsed ?? wallet.createdAt
+            };
+        }),
+        transactions: records => records.map(record => ({
+            status: 'confirmed',
+            gasUsed: '0',
+            gasPrice: '0',
+            blockNumber: 0,
+            ...record
+        }))
+    }
+];
+
+// Run every migration newer than fromVersion over one document; also used for backup bundles
+export function migrateDocument(kind: StorageDocument, data: any, fromVersion: number): any {
+    if (fromVersion > SCHEMA_VERSION) {
+        throw new Error(`Stored ${kind} use schema version ${fromVersion}, but this version of EtherVault3 only supports up to ${SCHEMA_VERSION}. Please update EtherVault3.`);
+    }
+    let migrated = data;
+    for (const migration of MIGRATIONS) {
+        const step: ((data: any) => any) | undefined = migration[kind];
+        if (migration.version > fromVersion && step) {
+            migrated = step(migrated);
+        }
+    }
+    return migrated;
+}
+
+// Encrypted files hold { schemaVersion, data }; unversioned files hold the bare array
+function parseDocument(json: string): { version: number; data: any[] } {
+    const parsed = JSON.parse(json);
+    if (Array.isArray(parsed)) {
+        return { version: 1, data: parsed };
+    }
+    if (typeof parsed?.schemaVersion !== 'number' || !Array.isArray(parsed.data)) {
+        throw new Error('Unrecognized storage layout');
+    }
+    return { version: parsed.schemaVersion, data: parsed.data };
+}
+
+// Shown when a file exists but can't be read; callers must not save over it
+function damagedFileMessage(name: string): string {
+    return `${name} can't be read and may be damaged, so it was left unchanged.`;
+}
+
+function serializeDocument(data: unknown[]): string {
+    return JSON.stringify({ schemaVersion: SCHEMA_VERSION, data });
 }
 
 class SecureStorage {
     private masterKey: Buffer | null = null;
+    private kdf: KdfParams | null = null; // Parameters masterKey was derived with
     private config: WalletConfig;
 
     constructor() {
         this.ensureStorageDirectory();
+        this.recoverRotation();
+        this.discardPartialWrites();
         this.config = this.loadConfig();
     }
 
@@ -76,56 +256,331 @@ class SecureStorage {
     }
 
     private loadConfig(): WalletConfig {
+        let stored: any;
         try {
-            if (fs.existsSync(CONFIG_FILE)) {
-                const data = fs.readFileSync(CONFIG_FILE, 'utf8');
-                return JSON.parse(data);
+            if (!fs.existsSync(CONFIG_FILE)) {
+                return { ...DEFAULT_CONFIG, schemaVersion: SCHEMA_VERSION };
             }
+            stored = JSON.parse(fs.readFileSync(CONFIG_FILE, 'utf8'));
         } catch (error) {
             log.warn(LogCategory.STORAGE, 'Failed to load config, using defaults', error);
+            return { ...DEFAULT_CONFIG, schemaVersion: SCHEMA_VERSION };
         }
-        
-        return {
-            defaultNetwork: 'sepolia',
-            autoSave: true,
-            encryptionEnabled: true
-        };
+
+        const version: number = stored.schemaVersion ?? 1;
+        if (version > SCHEMA_VERSION) {
+            log.warn(LogCategory.STORAGE, `Config uses schema version ${version}, newer than supported ${SCHEMA_VERSION}; it will not be modified`);
+            return { ...DEFAULT_CONFIG, ...stored };
+        }
+
+        // Settings added after the file was written fall back to their defaults
+        const config: WalletConfig = { ...DEFAULT_CONFIG, ...migrateDocument('config', stored, version), schemaVersion: SCHEMA_VERSION };
+        if (version < SCHEMA_VERSION) {
+            try {
+                this.backupOriginals([CONFIG_FILE], version);
+                this.writeFileAtomic(CONFIG_FILE, JSON.stringify(config, null, 2));
+                log.info(LogCategory.STORAGE, `Config migrated to schema version ${SCHEMA_VERSION}`);
+            } catch (error) {
+                log.warn(LogCategory.STORAGE, 'Failed to save migrated config', error);
+            }
+        }
+        return config;
+    }
+
+    // Copy files as they are now into backups/schema-v<version>-<timestamp>/ before a migration rewrites them
+    private backupOriginals(files: string[], fromVersion: number): string {
+        const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+        const dir = path.join(BACKUP_DIR, `schema-v${fromVersion}-${stamp}`);
+        fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+        for (const file of files) {
+            if (fs.existsSync(file)) {
+                fs.copyFileSync(file, path.join(dir, path.basename(file)));
+                fs.chmodSync(path.join(dir, path.basename(file)), 0o600);
+            }
+        }
+        log.info(LogCategory.STORAGE, `Backed up storage files to ${dir}`);
+        return dir;
+    }
+
+    private readDocument(file: string, kind: StorageDocument): any[] {
+        const { version, data } = parseDocument(this.decrypt(fs.readFileSync(file, 'utf8'), this.masterKey!));
+        return migrateDocument(kind, data, version);
+    }
+
+    // Upgrade the encrypted files to the current schema; runs once the master key is known
+    private migrateStorage(): void {
+        const documents: Array<{ file: string; kind: StorageDocument; version: number; data: any[] }> = [];
+        for (const [file, kind] of [[WALLETS_FILE, 'wallets'], [TRANSACTIONS_FILE, 'transactions']] as const) {
+            if (!fs.existsSync(file)) {
+                continue;
+            }
+            try {
+                documents.push({ file, kind, ...parseDocument(this.decrypt(fs.readFileSync(file, 'utf8'), this.masterKey!)) });
+            } catch {
+                // A damaged file is left alone so it can still be restored or inspected
+                log.warn(LogCategory.STORAGE, `Skipping migration of unreadable ${path.basename(file)}`);
+            }
+        }
+
+        const newer = documents.find(doc => doc.version > SCHEMA_VERSION);
+        if (newer) {
+            migrateDocument(newer.kind, newer.data, newer.version); // Throws the "please update" error
+        }
+        const outdated = documents.filter(doc => doc.version < SCHEMA_VERSION);
+        if (outdated.length === 0) {
+            return;
+        }
+
+        // The salt is kept with them: the backups only decrypt with the key they were written under
+        const oldest = Math.min(...outdated.map(doc => doc.version));
+        const backup = this.backupOriginals([...outdated.map(doc => doc.file), SALT_FILE], oldest);
+        // Every document is migrated before any is written, so a failing step leaves the originals untouched
+        const migrated = outdated.map(doc => this.encrypt(serializeDocument(migrateDocument(doc.kind, doc.data, doc.version)), this.masterKey!));
+        let written = 0;
+        try {
+            for (; written < outdated.length; written++) {
+                this.writeFileAtomic(outdated[written]!.file, migrated[written]!);
+            }
+        } catch (error) {
+            // Put back the files already rewritten, so the vault is never half old and half new
+            for (const doc of outdated.slice(0, written)) {
+                this.writeFileAtomic(doc.file, fs.readFileSync(path.join(backup, path.basename(doc.file)), 'utf8'));
+            }
+            throw error;
+        }
+        log.info(LogCategory.STORAGE, `Storage migrated from schema version ${oldest} to ${SCHEMA_VERSION}`, {
+            steps: MIGRATIONS.filter(m => m.version > oldest).map(m => m.description)
+        });
     }
 
     private saveConfig(): void {
         try {
-            fs.writeFileSync(CONFIG_FILE, JSON.stringify(this.config, null, 2), { mode: 0o600 });
+            this.writeFileAtomic(CONFIG_FILE, JSON.stringify(this.config, null, 2));
         } catch (error) {
             log.storageError('Save Config', error);
         }
     }
 
-    private deriveKey(password: string, salt: Buffer): Buffer {
-        return crypto.pbkdf2Sync(password, salt, 100000, KEY_LENGTH, 'sha512');
+    // Write and flush to disk before returning, so a later rename can't expose a partial file
+    private writeFileSynced(file: string, data: string): void {
+        const fd = fs.openSync(file, 'w', 0o600);
+        try {
+            fs.writeSync(fd, data);
+            fs.fsyncSync(fd);
+        } finally {
+            fs.closeSync(fd);
+        }
+    }
+
+    // Replace a file so that a crash leaves either the old or the new content, never a mix
+    private writeFileAtomic(file: string, data: string): void {
+        const temp = file + TEMP_SUFFIX;
+        try {
+            this.writeFileSynced(temp, data);
+            fs.renameSync(temp, file);
+        } catch (error) {
+            fs.rmSync(temp, { force: true });
+            throw error;
+        }
+        this.syncDirectory();
+    }
+
+    // A leftover temp file is a write that never reached its rename; the original is intact
+    private discardPartialWrites(): void {
+        for (const file of [WALLETS_FILE, TRANSACTIONS_FILE, CONFIG_FILE, SALT_FILE, ROTATION_JOURNAL]) {
+            if (fs.existsSync(file + TEMP_SUFFIX)) {
+                fs.rmSync(file + TEMP_SUFFIX, { force: true });
+                log.warn(LogCategory.STORAGE, `Discarded an incomplete write of ${path.basename(file)}`);
+            }
+        }
+    }
+
+    private generationFiles(): Array<{ id: string; savedAt: number }> {
+        if (!fs.existsSync(GENERATIONS_DIR)) {
+            return [];
+        }
+        return fs.readdirSync(GENERATIONS_DIR)
+            .map(id => ({ id, match: GENERATION_PATTERN.exec(id) }))
+            .filter(entry => entry.match !== null)
+            .map(entry => ({ id: entry.id, savedAt: Number(entry.match![1]) }))
+            .sort((a, b) => b.savedAt - a.savedAt);
+    }
+
+    // Keep the current wallets.enc as a generation before it is replaced
+    private retainGeneration(): void {
+        if (!fs.existsSync(WALLETS_FILE)) {
+            return;
+        }
+        fs.mkdirSync(GENERATIONS_DIR, { recursive: true, mode: 0o700 });
+        let savedAt = Math.floor(fs.statSync(WALLETS_FILE).mtimeMs);
+        while (fs.existsSync(path.join(GENERATIONS_DIR, `wallets-${savedAt}.enc`))) {
+            savedAt++;
+        }
+        const target = path.join(GENERATIONS_DIR, `wallets-${savedAt}.enc`);
+        try {
+            // A hard link is free, and the rename that follows leaves it pointing at the old content
+            fs.linkSync(WALLETS_FILE, target);
+        } catch {
+            fs.copyFileSync(WALLETS_FILE, target);
+        }
+    }
+
+    private pruneGenerations(): void {
+        const keep = this.config.walletGenerations ?? DEFAULT_WALLET_GENERATIONS;
+        for (const { id } of this.generationFiles().slice(Math.max(keep, 0))) {
+            fs.rmSync(path.join(GENERATIONS_DIR, id), { force: true });
+        }
+    }
+
+    private clearGenerations(): void {
+        fs.rmSync(GENERATIONS_DIR, { recursive: true, force: true });
+    }
+
+    private writeWalletsFile(data: string): void {
+        this.retainGeneration();
+        this.writeFileAtomic(WALLETS_FILE, data);
+        try {
+            this.pruneGenerations();
+        } catch (error) {
+            log.warn(LogCategory.STORAGE, 'Failed to prune old wallet generations', error);
+        }
+    }
+
+    private syncDirectory(): void {
+        try {
+            const fd = fs.openSync(STORAGE_DIR, 'r');
+            try {
+                fs.fsyncSync(fd);
+            } finally {
+                fs.closeSync(fd);
+            }
+        } catch {
+            // Directory fsync isn't supported everywhere (e.g. Windows)
+        }
+    }
+
+    // Files a rotation stages: the vault files, then any generations being re-encrypted
+    private stagedRotationFiles(): string[] {
+        const generations = fs.existsSync(GENERATIONS_DIR)
+            ? fs.readdirSync(GENERATIONS_DIR)
+                .filter(name => name.endsWith(STAGED_SUFFIX) && GENERATION_PATTERN.test(name.slice(0, -STAGED_SUFFIX.length)))
+                .map(name => path.join(GENERATIONS_DIR, name.slice(0, -STAGED_SUFFIX.length)))
+            : [];
+        return [SALT_FILE, WALLETS_FILE, TRANSACTIONS_FILE, ...generations].filter(file => fs.existsSync(file + STAGED_SUFFIX));
+    }
+
+    // The journal lists vault files by name and generations by id; anything else is ignored
+    private readRotationJournal(): string[] | null {
+        try {
+            const journal = JSON.parse(fs.readFileSync(ROTATION_JOURNAL, 'utf8'));
+            if (!Array.isArray(journal?.files)) {
+                return null;
+            }
+            const generations: string[] = Array.isArray(journal.generations) ? journal.generations : [];
+            return [
+                ...journal.files.map((name: string) => path.join(STORAGE_DIR, path.basename(name))),
+                ...generations.filter(id => GENERATION_PATTERN.test(id)).map(id => path.join(GENERATIONS_DIR, id))
+            ];
+        } catch {
+            return null;
+        }
+    }
+
+    // Finish or undo a master password rotation that was interrupted
+    private recoverRotation(): void {
+        try {
+            const staged = this.stagedRotationFiles();
+            let committed: string[] | null = null;
+            if (fs.existsSync(ROTATION_JOURNAL)) {
+                committed = this.readRotationJournal();
+                // The salt is renamed first, so an unreadable journal with salt.enc.new still present means no file was switched yet
+                if (committed === null && staged.length > 0 && !staged.includes(SALT_FILE)) {
+                    committed = staged;
+                }
+            }
+
+            if (committed) {
+                // Committed: every staged file is complete, so roll forward
+                for (const target of committed) {
+                    if (fs.existsSync(target + STAGED_SUFFIX)) {
+                        fs.renameSync(target + STAGED_SUFFIX, target);
+                    }
+                }
+                this.syncDirectory();
+                fs.unlinkSync(ROTATION_JOURNAL);
+                log.warn(LogCategory.STORAGE, 'Completed an interrupted master password change');
+                return;
+            }
+
+            // Not committed (no journal, or one that can't be read): the originals are untouched, so drop the staged copies
+            if (staged.length > 0 || fs.existsSync(ROTATION_JOURNAL)) {
+                staged.forEach(file => fs.unlinkSync(file + STAGED_SUFFIX));
+                fs.rmSync(ROTATION_JOURNAL, { force: true });
+                log.warn(LogCategory.STORAGE, 'Discarded an interrupted master password change; the previous password is still valid');
+            }
+        } catch (error) {
+            log.storageError('Recover Password Change', error);
+        }
     }
 
     private generateSalt(): Buffer {
         return crypto.randomBytes(16);
     }
 
-    private encrypt(text: string, key: Buffer): string {
+    // salt.enc holds the salt and KDF parameters as JSON; older vaults hold a bare hex salt (PBKDF2)
+    private readKeyFile(): { salt: Buffer; kdf: KdfParams } | null {
+        if (!fs.existsSync(SALT_FILE)) {
+            return null;
+        }
+        const content = fs.readFileSync(SALT_FILE, 'utf8').trim();
+        if (!content.startsWith('{')) {
+            return { salt: Buffer.from(content, 'hex'), kdf: LEGACY_KDF };
+        }
+        const keyFile: KeyFile = JSON.parse(content);
+        if (keyFile.version !== ENVELOPE_VERSION) {
+            throw new Error(`Unsupported key file version: ${keyFile.version}`);
+        }
+        return { salt: Buffer.from(keyFile.salt, 'hex'), kdf: keyFile.kdf };
+    }
+
+    private serializeKeyFile(salt: Buffer, kdf: KdfParams): string {
+        const keyFile: KeyFile = { version: ENVELOPE_VERSION, salt: salt.toString('hex'), kdf };
+        return JSON.stringify(keyFile, null, 2);
+    }
+
+    private currentKdf(): KdfParams {
+        if (!this.kdf) {
+            throw new Error('Master password not set');
+        }
+        return this.kdf;
+    }
+
+    // Envelope: v2:<kdf tag>:iv:tag:ciphertext; the header is authenticated as AAD
+    private encrypt(text: string, key: Buffer, kdf: KdfParams = this.currentKdf()): string {
+        const header = `v${ENVELOPE_VERSION}:${formatKdfTag(kdf)}`;
         const iv = crypto.randomBytes(IV_LENGTH);
         const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
-        cipher.setAAD(Buffer.from('wallet-storage', 'utf8'));
+        cipher.setAAD(Buffer.from(`wallet-storage:${header}`, 'utf8'));
         
         let encrypted = cipher.update(text, 'utf8', 'hex');
         encrypted += cipher.final('hex');
         
         const tag = cipher.getAuthTag();
         
-        // Combine iv + tag + encrypted data
-        return iv.toString('hex') + ':' + tag.toString('hex') + ':' + encrypted;
+        return header + ':' + iv.toString('hex') + ':' + tag.toString('hex') + ':' + encrypted;
     }
 
     private decrypt(encryptedData: string, key: Buffer): string {
         try {
             const parts = encryptedData.split(':');
-            if (parts.length !== 3) {
+            let aad: string;
+            if (parts.length === 5 && parts[0] === `v${ENVELOPE_VERSION}`) {
+                parseKdfTag(parts[1]!); // Rejects unknown KDFs before trying the key
+                aad = `wallet-storage:${parts[0]}:${parts[1]}`;
+                parts.splice(0, 2);
+            } else if (parts.length === 3) {
+                aad = 'wallet-storage'; // Unversioned PBKDF2-era envelope
+            } else {
                 throw new Error('Invalid encrypted data format');
             }
             
@@ -134,7 +589,7 @@ class SecureStorage {
             const encrypted = parts[2]!;
             
             const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
-            decipher.setAAD(Buffer.from('wallet-storage', 'utf8'));
+            decipher.setAAD(Buffer.from(aad, 'utf8'));
             decipher.setAuthTag(tag);
             
             let decrypted = decipher.update(encrypted, 'hex', 'utf8');
@@ -148,37 +603,158 @@ class SecureStorage {
 
     async setMasterPassword(password: string): Promise<void> {
         const salt = this.generateSalt();
-        this.masterKey = this.deriveKey(password, salt);
+        this.masterKey = deriveKey(password, salt, DEFAULT_KDF);
+        this.kdf = DEFAULT_KDF;
         
-        // Store salt for future use
-        const saltFile = path.join(STORAGE_DIR, 'salt.enc');
-        fs.writeFileSync(saltFile, salt.toString('hex'), { mode: 0o600 });
+        // Store salt and KDF parameters for future use
+        this.writeFileAtomic(SALT_FILE, this.serializeKeyFile(salt, DEFAULT_KDF));
+    }
+
+    // Decrypt everything with the current key and re-encrypt it under a new password and/or KDF
+    private async reencryptVault(newPassword: string, kdf: KdfParams): Promise<void> {
+        if (!this.masterKey) {
+            throw new Error('Master password not set');
+        }
+        const oldKey = this.masterKey;
+
+        // Decrypt everything first; any failure aborts before a single file changes
+        const wallets: StoredWallet[] = fs.existsSync(WALLETS_FILE) ? this.readDocument(WALLETS_FILE, 'wallets') : [];
+        const transactions: TransactionRecord[] | null = fs.existsSync(TRANSACTIONS_FILE)
+            ? this.readDocument(TRANSACTIONS_FILE, 'transactions')
+            : null;
+
+        const salt = this.generateSalt();
+        const newKey = deriveKey(newPassword, salt, kdf);
+        const reencrypt = (data: string) => this.encrypt(this.decrypt(data, oldKey), newKey, kdf);
+        const reencryptSecrets = (list: StoredWallet[]) => {
+            for (const wallet of list) {
+                if (wallet.encryptedMnemonic) {
+                    wallet.encryptedMnemonic = reencrypt(wallet.encryptedMnemonic);
+                }
+                if (wallet.encryptedPassphrase) {
+                    wallet.encryptedPassphrase = reencrypt(wallet.encryptedPassphrase);
+                }
+                for (const account of wallet.accounts) {
+                    if (account.encryptedPrivateKey) {
+                        account.encryptedPrivateKey = reencrypt(account.encryptedPrivateKey);
+                    }
+                }
+            }
+            return list;
+        };
+        reencryptSecrets(wallets);
+
+        // Saved versions move to the new key too, so they can still be restored; one that no longer opens
+        // under the current password (damaged, or from before an interrupted change) is left as it is
+        const generations: Array<{ id: string; data: string }> = [];
+        for (const { id } of this.generationFiles()) {
+            try {
+                const file = path.join(GENERATIONS_DIR, id);
+                generations.push({ id, data: this.encrypt(serializeDocument(reencryptSecrets(this.readDocument(file, 'wallets'))), newKey, kdf) });
+            } catch {
+                log.warn(LogCategory.STORAGE, `Wallet generation ${id} can't be decrypted with the current password; it is kept but won't open with the new one`);
+            }
+        }
+
+        const staged: Array<{ file: string; data: string }> = [{ file: SALT_FILE, data: this.serializeKeyFile(salt, kdf) }];
+        if (fs.existsSync(WALLETS_FILE)) {
+            staged.push({ file: WALLETS_FILE, data: this.encrypt(serializeDocument(wallets), newKey, kdf) });
+        }
+        if (transactions !== null) {
+            staged.push({ file: TRANSACTIONS_FILE, data: this.encrypt(serializeDocument(transactions), newKey, kdf) });
+        }
+        staged.push(...generations.map(({ id, data }) => ({ file: path.join(GENERATIONS_DIR, id), data })));
+
+        try {
+            for (const { file, data } of staged) {
+                this.writeFileSynced(file + STAGED_SUFFIX, data);
+            }
+        } catch (error) {
+            staged.forEach(({ file }) => fs.rmSync(file + STAGED_SUFFIX, { force: true }));
+            throw error;
+        }
+
+        // Commit point: from here on an interrupted rotation is rolled forward on the next start.
+        // The salt is renamed first; recoverRotation relies on that order
+        const vaultFiles = staged.filter(({ file }) => path.dirname(file) === STORAGE_DIR);
+        this.writeFileAtomic(ROTATION_JOURNAL, JSON.stringify({
+            files: vaultFiles.map(({ file }) => path.basename(file)),
+            generations: generations.map(({ id }) => id)
+        }));
+
+        for (const { file } of staged) {
+            fs.renameSync(file + STAGED_SUFFIX, file);
+        }
+        this.syncDirectory();
+        fs.unlinkSync(ROTATION_JOURNAL);
+
+        this.masterKey = newKey;
+        this.kdf = kdf;
+    }
+
+    // Re-encrypt every secret and file under a key derived from the new password
+    async rotateMasterPassword(newPassword: string): Promise<void> {
+        const kdf = this.currentKdf();
+        await this.reencryptVault(newPassword, kdf.kdf === 'pbkdf2' ? DEFAULT_KDF : kdf);
+        log.info(LogCategory.SECURITY, 'Master password changed; all stored data re-encrypted');
+    }
+
+    // Switch the vault to different KDF parameters, e.g. a higher work factor
+    async changeKdf(password: string, kdf: KdfParams): Promise<void> {
+        const keyFile = this.readKeyFile();
+        if (!this.masterKey || !keyFile) {
+            throw new Error('Master password not set');
+        }
+        const check = deriveKey(password, keyFile.salt, keyFile.kdf);
+        if (!crypto.timingSafeEqual(check, this.masterKey)) {
+            throw new Error('Invalid master password');
+        }
+        await this.reencryptVault(password, kdf);
+        log.info(LogCategory.SECURITY, `Key derivation changed to ${formatKdfTag(kdf)}; all stored data re-encrypted`);
+    }
+
+    getKdf(): KdfParams | null {
+        try {
+            return this.kdf ?? this.readKeyFile()?.kdf ?? null;
+        } catch {
+            return null;
+        }
     }
 
     async loadMasterPassword(password: string): Promise<boolean> {
+        let keyFile: { salt: Buffer; kdf: KdfParams } | null;
         try {
-            const saltFile = path.join(STORAGE_DIR, 'salt.enc');
-            if (!fs.existsSync(saltFile)) {
+            keyFile = this.readKeyFile();
+            if (!keyFile) {
                 return false;
             }
             
-            const saltHex = fs.readFileSync(saltFile, 'utf8');
-            const salt = Buffer.from(saltHex, 'hex');
-            const testKey = this.deriveKey(password, salt);
+            const testKey = deriveKey(password, keyFile.salt, keyFile.kdf);
             
             // Test decryption with existing data to verify the key is correct
-            // Try to decrypt wallets file if it exists
-            if (fs.existsSync(WALLETS_FILE)) {
-                const encryptedData = fs.readFileSync(WALLETS_FILE, 'utf8');
-                this.decrypt(encryptedData, testKey); // This will throw if password is wrong
-            } else if (fs.existsSync(TRANSACTIONS_FILE)) {
-                // If no wallets file, try transactions file
-                const encryptedData = fs.readFileSync(TRANSACTIONS_FILE, 'utf8');
-                this.decrypt(encryptedData, testKey); // This will throw if password is wrong
+            // Wallets first; if wallets.enc is damaged, the transactions file or a saved version
+            // still proves the password, so the vault can be unlocked and the wallets restored
+            const candidates = [WALLETS_FILE, TRANSACTIONS_FILE, ...this.generationFiles().map(({ id }) => path.join(GENERATIONS_DIR, id))]
+                .filter(file => fs.existsSync(file));
+            if (candidates.length > 0) {
+                const verified = candidates.find(file => {
+                    try {
+                        this.decrypt(fs.readFileSync(file, 'utf8'), testKey);
+                        return true;
+                    } catch {
+                        return false;
+                    }
+                });
+                if (!verified) {
+                    throw new Error('Password validation failed');
+                }
+                if (verified !== WALLETS_FILE && fs.existsSync(WALLETS_FILE)) {
+                    log.warn(LogCategory.STORAGE, 'wallets.enc could not be decrypted and may be damaged. Restore a previous version from Settings or with "ethervault3 restore".');
+                }
             } else {
                 // If no encrypted files exist, just test encryption/decryption cycle
                 const testData = 'test-validation';
-                const encrypted = this.encrypt(testData, testKey);
+                const encrypted = this.encrypt(testData, testKey, keyFile.kdf);
                 const decrypted = this.decrypt(encrypted, testKey);
                 if (decrypted !== testData) {
                     throw new Error('Password validation failed');
@@ -187,12 +763,32 @@ class SecureStorage {
             
             // Only set masterKey if decryption test passed
             this.masterKey = testKey;
-            return true;
+            this.kdf = keyFile.kdf;
         } catch (error) {
             // Don't set masterKey if password is wrong or decryption fails
             this.masterKey = null;
+            this.kdf = null;
             return false;
         }
+
+        // Bring older layouts up to date; a vault written by a newer release is refused rather than misread
+        try {
+            this.migrateStorage();
+        } catch (error) {
+            this.clearMasterKey();
+            throw error;
+        }
+
+        // Vaults from before the versioned envelope are upgraded once the password is known
+        if (keyFile.kdf.kdf === 'pbkdf2') {
+            try {
+                log.info(LogCategory.SECURITY, 'Upgrading storage encryption from PBKDF2 to scrypt...');
+                await this.reencryptVault(password, DEFAULT_KDF);
+            } catch (error) {
+                log.warn(LogCategory.SECURITY, 'Encryption upgrade failed; data stays readable with PBKDF2', error);
+            }
+        }
+        return true;
     }
 
     async saveWallet(
@@ -206,6 +802,8 @@ class SecureStorage {
 
         const walletId = crypto.randomUUID();
         const mnemonic = wallet.mnemonic?.phrase || '';
+        const passphrase = wallet.mnemonic?.password || '';
+        const wordlist = wallet.mnemonic?.wordlist.locale ?? 'en';
         
         const account: WalletAccount = {
             index: 0,
@@ -219,6 +817,9 @@ class SecureStorage {
             id: walletId,
             name,
             encryptedMnemonic: this.encrypt(mnemonic, this.masterKey),
+            ...(passphrase && { encryptedPassphrase: this.encrypt(passphrase, this.masterKey) }),
+            ...(wordlist !== 'en' && { wordlist }),
+            backedUp: false,
             createdAt: new Date().toISOString(),
             lastUsed: new Date().toISOString(),
             network,
@@ -229,8 +830,7 @@ class SecureStorage {
         const wallets = await this.loadWallets();
         wallets.push(storedWallet);
         
-        const encryptedWallets = this.encrypt(JSON.stringify(wallets), this.masterKey!);
-        fs.writeFileSync(WALLETS_FILE, encryptedWallets, { mode: 0o600 });
+        await this.saveWallets(wallets);
         
         return walletId;
     }
@@ -243,7 +843,8 @@ class SecureStorage {
             txCount?: number;
         }>,
         name: string,
-        network: string = 'sepolia'
+        network: string = 'sepolia',
+        pathTemplate: string = DEFAULT_PATH_TEMPLATE
     ): Promise<string> {
         if (!this.masterKey) {
             throw new Error('Master password not set');
@@ -255,13 +856,15 @@ class SecureStorage {
 
         const walletId = crypto.randomUUID();
         const mnemonic = accounts[0]?.wallet.mnemonic?.phrase || '';
+        const passphrase = accounts[0]?.wallet.mnemonic?.password || '';
+        const wordlist = accounts[0]?.wallet.mnemonic?.wordlist.locale ?? 'en';
         
         const walletAccounts: WalletAccount[] = accounts.map(account => ({
             index: account.index,
             address: account.wallet.address,
             publicKey: account.wallet.publicKey,
             encryptedPrivateKey: this.encrypt(account.wallet.privateKey, this.masterKey!),
-            derivationPath: `m/44'/60'/0'/0/${account.index}`,
+            derivationPath: account.wallet.path ?? derivationPath(pathTemplate, account.index),
             ...(account.balance && { balance: account.balance }),
             ...(account.txCount !== undefined && { txCount: account.txCount })
         }));
@@ -270,6 +873,10 @@ class SecureStorage {
             id: walletId,
             name,
             encryptedMnemonic: this.encrypt(mnemonic, this.masterKey),
+            ...(passphrase && { encryptedPassphrase: this.encrypt(passphrase, this.masterKey) }),
+            ...(pathTemplate !== DEFAULT_PATH_TEMPLATE && { pathTemplate }),
+            ...(wordlist !== 'en' && { wordlist }),
+            backedUp: true, // The mnemonic was typed in, so the user already has it
             createdAt: new Date().toISOString(),
             lastUsed: new Date().toISOString(),
             network,
@@ -280,29 +887,209 @@ class SecureStorage {
         const wallets = await this.loadWallets();
         wallets.push(storedWallet);
         
-        const encryptedWallets = this.encrypt(JSON.stringify(wallets), this.masterKey!);
-        fs.writeFileSync(WALLETS_FILE, encryptedWallets, { mode: 0o600 });
+        await this.saveWallets(wallets);
         
         return walletId;
     }
 
+    // Save imported private keys as a wallet without a mnemonic
+    async saveKeyWallet(keys: Wallet[], name: string, network: string = 'sepolia'): Promise<string> {
+        if (!this.masterKey) {
+            throw new Error('Master password not set');
+        }
+
+        if (keys.length === 0) {
+            throw new Error('No keys provided');
+        }
+
+        const walletId = crypto.randomUUID();
+        const storedWallet: StoredWallet = {
+            id: walletId,
+            name,
+            type: 'keys',
+            createdAt: new Date().toISOString(),
+            lastUsed: new Date().toISOString(),
+            network,
+            accounts: keys.map((key, index) => ({
+                index,
+                address: key.address,
+                publicKey: key.signingKey.publicKey,
+                encryptedPrivateKey: this.encrypt(key.privateKey, this.masterKey!)
+            })),
+            currentAccountIndex: 0
+        };
+
+        const wallets = await this.loadWallets();
+        wallets.push(storedWallet);
+        await this.saveWallets(wallets);
+
+        return walletId;
+    }
+
+    // Append imported private keys to an existing key wallet as new accounts
+    async addKeysToWallet(walletId: string, keys: Wallet[]): Promise<StoredWallet> {
+        if (!this.masterKey) {
+            throw new Error('Master password not set');
+        }
+
+        const wallets = await this.loadWallets();
+        const wallet = wallets.find(w => w.id === walletId);
+        if (!wallet) {
+            throw new Error('Wallet not found');
+        }
+        if (!isKeyWallet(wallet)) {
+            throw new Error('Private keys can only be added to an imported-key wallet');
+        }
+
+        const nextIndex = wallet.accounts.length;
+        wallet.accounts.push(...keys.map((key, offset) => ({
+            index: nextIndex + offset,
+            address: key.address,
+            publicKey: key.signingKey.publicKey,
+            encryptedPrivateKey: this.encrypt(key.privateKey, this.masterKey!)
+        })));
+        wallet.lastUsed = new Date().toISOString();
+        await this.saveWallets(wallets);
+
+        return wallet;
+    }
+
+    // Save a watch-only wallet: addresses (and public keys when known) without any secret
+    async saveWatchWallet(
+        accounts: Array<{ address: string; publicKey?: string }>,
+        name: string,
+        network: string = 'sepolia',
+        xpub?: string
+    ): Promise<string> {
+        if (!this.masterKey) {
+            throw new Error('Master password not set');
+        }
+
+        if (accounts.length === 0) {
+            throw new Error('No addresses provided');
+        }
+
+        const walletId = crypto.randomUUID();
+        const storedWallet: StoredWallet = {
+            id: walletId,
+            name,
+            type: 'watch',
+            ...(xpub && { xpub }),
+            createdAt: new Date().toISOString(),
+            lastUsed: new Date().toISOString(),
+            network,
+            accounts: accounts.map((account, index) => ({ index, ...account })),
+            currentAccountIndex: 0
+        };
+
+        const wallets = await this.loadWallets();
+        wallets.push(storedWallet);
+        await this.saveWallets(wallets);
+
+        return walletId;
+    }
+
+    async addWatchAccounts(walletId: string, accounts: Array<{ address: string; publicKey?: string }>): Promise<StoredWallet> {
+        if (!this.masterKey) {
+            throw new Error('Master password not set');
+        }
+
+        const wallets = await this.loadWallets();
+        const wallet = wallets.find(w => w.id === walletId);
+        if (!wallet) {
+            throw new Error('Wallet not found');
+        }
+        if (!isWatchOnly(wallet)) {
+            throw new Error('Watched addresses can only be added to a watch-only wallet');
+        }
+
+        const nextIndex = wallet.accounts.length;
+        wallet.accounts.push(...accounts.map((account, offset) => ({ index: nextIndex + offset, ...account })));
+        wallet.lastUsed = new Date().toISOString();
+        await this.saveWallets(wallets);
+
+        return wallet;
+    }
+
     async loadWallets(): Promise<StoredWallet[]> {
         if (!this.masterKey) {
             throw new Error('Master password not set');
         }
 
+        if (!fs.existsSync(WALLETS_FILE)) {
+            return [];
+        }
         try {
-            if (!fs.existsSync(WALLETS_FILE)) {
-                return [];
-            }
-            
-            const encryptedData = fs.readFileSync(WALLETS_FILE, 'utf8');
-            const decryptedData = this.decrypt(encryptedData, this.masterKey);
-            return JSON.parse(decryptedData);
+            return this.readDocument(WALLETS_FILE, 'wallets');
         } catch (error) {
+            // Returning [] here would let the next save replace every wallet with one
             log.storageError('Load Wallets', error);
-            return [];
+            throw new Error(`${damagedFileMessage('wallets.enc')} Restore a previous version from Settings or with "ethervault3 restore".`);
+        }
+    }
+
+    // wallets.enc exists but won't decrypt with the current key; nothing can be saved until it is restored
+    isWalletsFileDamaged(): boolean {
+        if (!this.masterKey || !fs.existsSync(WALLETS_FILE)) {
+            return false;
+        }
+        try {
+            this.readDocument(WALLETS_FILE, 'wallets');
+            return false;
+        } catch {
+            return true;
+        }
+    }
+
+    // Replace the stored wallet list
+    async saveWallets(wallets: StoredWallet[]): Promise<void> {
+        if (!this.masterKey) {
+            throw new Error('Master password not set');
         }
+        this.writeWalletsFile(this.encrypt(serializeDocument(wallets), this.masterKey));
+    }
+
+    private writeTransactions(transactions: TransactionRecord[]): void {
+        this.writeFileAtomic(TRANSACTIONS_FILE, this.encrypt(serializeDocument(transactions), this.masterKey!));
+    }
+
+    // Previous versions of wallets.enc, newest first
+    async listWalletGenerations(): Promise<WalletGeneration[]> {
+        if (!this.masterKey) {
+            throw new Error('Master password not set');
+        }
+
+        return this.generationFiles().map(({ id, savedAt }) => {
+            const file = path.join(GENERATIONS_DIR, id);
+            let wallets: number | null;
+            try {
+                wallets = this.readDocument(file, 'wallets').length;
+            } catch {
+                wallets = null;
+            }
+            return { id, savedAt: new Date(savedAt), size: fs.statSync(file).size, wallets };
+        });
+    }
+
+    // Make a generation current again; the wallets it replaces become the newest generation
+    async restoreWalletGeneration(id: string): Promise<StoredWallet[]> {
+        if (!this.masterKey) {
+            throw new Error('Master password not set');
+        }
+        const file = path.join(GENERATIONS_DIR, path.basename(id));
+        if (!GENERATION_PATTERN.test(path.basename(id)) || !fs.existsSync(file)) {
+            throw new Error(`Wallet generation not found: ${id}`);
+        }
+
+        let wallets: StoredWallet[];
+        try {
+            wallets = this.readDocument(file, 'wallets');
+        } catch (error) {
+            throw new Error(`Wallet generation ${id} can't be decrypted with the current master password`);
+        }
+        await this.saveWallets(wallets);
+        log.info(LogCategory.STORAGE, `Restored wallets from generation ${id}`, { wallets: wallets.length });
+        return wallets;
     }
 
     async getWallet(walletId: string): Promise<StoredWallet | null> {
@@ -310,19 +1097,36 @@ class SecureStorage {
         return wallets.find(w => w.id === walletId) || null;
     }
 
-    async decryptWallet(storedWallet: StoredWallet): Promise<{ mnemonic: string; privateKey: string }> {
+    // mnemonic is null for key and watch wallets, privateKey for watch wallets; passphrase is '' when none is used
+    async decryptWallet(storedWallet: StoredWallet): Promise<{ mnemonic: string | null; passphrase: string; privateKey: string | null }> {
         if (!this.masterKey) {
             throw new Error('Master password not set');
         }
 
-        const mnemonic = this.decrypt(storedWallet.encryptedMnemonic, this.masterKey);
+        const mnemonic = storedWallet.encryptedMnemonic ? this.decrypt(storedWallet.encryptedMnemonic, this.masterKey) : null;
+        const passphrase = storedWallet.encryptedPassphrase ? this.decrypt(storedWallet.encryptedPassphrase, this.masterKey) : '';
         const currentAccount = storedWallet.accounts[storedWallet.currentAccountIndex];
         if (!currentAccount) {
             throw new Error('Current account not found');
         }
-        const privateKey = this.decrypt(currentAccount.encryptedPrivateKey, this.masterKey);
+        const privateKey = currentAccount.encryptedPrivateKey ? this.decrypt(currentAccount.encryptedPrivateKey, this.masterKey) : null;
         
-        return { mnemonic, privateKey };
+        return { mnemonic, passphrase, privateKey };
+    }
+
+    async decryptAccountKey(storedWallet: StoredWallet, accountIndex: number): Promise<string> {
+        if (!this.masterKey) {
+            throw new Error('Master password not set');
+        }
+
+        const account = storedWallet.accounts[accountIndex];
+        if (!account) {
+            throw new Error(`Account ${accountIndex} not found`);
+        }
+        if (!account.encryptedPrivateKey) {
+            throw new Error(`"${storedWallet.name}" is a watch-only wallet and holds no private keys`);
+        }
+        return this.decrypt(account.encryptedPrivateKey, this.masterKey);
     }
 
     async getCurrentAccount(storedWallet: StoredWallet): Promise<WalletAccount | null> {
@@ -340,8 +1144,7 @@ class SecureStorage {
         wallet.currentAccountIndex = accountIndex;
         wallet.lastUsed = new Date().toISOString();
         
-        const encryptedWallets = this.encrypt(JSON.stringify(wallets), this.masterKey!);
-        fs.writeFileSync(WALLETS_FILE, encryptedWallets, { mode: 0o600 });
+        await this.saveWallets(wallets);
         
         return true;
     }
@@ -352,8 +1155,33 @@ class SecureStorage {
         
         if (wallet) {
             wallet.lastUsed = new Date().toISOString();
-            const encryptedWallets = this.encrypt(JSON.stringify(wallets), this.masterKey!);
-            fs.writeFileSync(WALLETS_FILE, encryptedWallets, { mode: 0o600 });
+            await this.saveWallets(wallets);
+        }
+    }
+
+    async markBackedUp(walletId: string): Promise<void> {
+        const wallets = await this.loadWallets();
+        const wallet = wallets.find(w => w.id === walletId);
+        
+        if (wallet) {
+            wallet.backedUp = true;
+            await this.saveWallets(wallets);
+        }
+    }
+
+    async setSyncCheckpoint(walletId: string, accountIndices: number[], blockNumber: number): Promise<void> {
+        const wallets = await this.loadWallets();
+        const wallet = wallets.find(w => w.id === walletId);
+        
+        if (wallet) {
+            for (const index of accountIndices) {
+                const account = wallet.accounts[index];
+                // A rescan of older blocks never moves the checkpoint backwards
+                if (account && (account.lastSyncedBlock === undefined || account.lastSyncedBlock < blockNumber)) {
+                    account.lastSyncedBlock = blockNumber;
+                }
+            }
+            await this.saveWallets(wallets);
         }
     }
 
@@ -365,8 +1193,7 @@ class SecureStorage {
             return false; // Wallet not found
         }
         
-        const encryptedWallets = this.encrypt(JSON.stringify(filteredWallets), this.masterKey!);
-        fs.writeFileSync(WALLETS_FILE, encryptedWallets, { mode: 0o600 });
+        await this.saveWallets(filteredWallets);
         return true;
     }
 
@@ -378,8 +1205,18 @@ class SecureStorage {
         const transactions = await this.loadTransactions();
         transactions.push(transaction);
         
-        const encryptedTransactions = this.encrypt(JSON.stringify(transactions), this.masterKey);
-        fs.writeFileSync(TRANSACTIONS_FILE, encryptedTransactions, { mode: 0o600 });
+        this.writeTransactions(transactions);
+    }
+
+    async saveTransactions(records: TransactionRecord[]): Promise<void> {
+        if (!this.masterKey) {
+            throw new Error('Master password not set');
+        }
+
+        const transactions = await this.loadTransactions();
+        transactions.push(...records);
+        
+        this.writeTransactions(transactions);
     }
 
     async loadTransactions(walletId?: string): Promise<TransactionRecord[]> {
@@ -387,23 +1224,44 @@ class SecureStorage {
             throw new Error('Master password not set');
         }
 
+        if (!fs.existsSync(TRANSACTIONS_FILE)) {
+            return [];
+        }
+        let transactions: TransactionRecord[];
         try {
-            if (!fs.existsSync(TRANSACTIONS_FILE)) {
-                return [];
-            }
-            
-            const encryptedData = fs.readFileSync(TRANSACTIONS_FILE, 'utf8');
-            const decryptedData = this.decrypt(encryptedData, this.masterKey);
-            const transactions: TransactionRecord[] = JSON.parse(decryptedData);
-            
-            return walletId ? transactions.filter(t => t.walletId === walletId) : transactions;
+            transactions = this.readDocument(TRANSACTIONS_FILE, 'transactions');
         } catch (error) {
             log.storageError('Load Transactions', error);
-            return [];
+            throw new Error(`${damagedFileMessage('transactions.enc')} Move it out of .wallet-storage to start a new transaction history.`);
         }
+        return walletId ? transactions.filter(t => t.walletId === walletId) : transactions;
+    }
+
+    // Previous wallet versions or upgrade backups that Clear All Data would otherwise delete
+    hasRetainedCopies(): boolean {
+        return this.generationFiles().length > 0 || (fs.existsSync(BACKUP_DIR) && fs.readdirSync(BACKUP_DIR).length > 0);
     }
 
-    async clearAllData(): Promise<void> {
+    // With keepPreviousVersions, the wallet versions (the cleared one included) move to backups/cleared-<timestamp>/
+    // with the salt they need, and earlier backups stay; returns that directory
+    async clearAllData(keepPreviousVersions: boolean = false): Promise<string | null> {
+        if (keepPreviousVersions) {
+            const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+            const dir = path.join(BACKUP_DIR, `cleared-${stamp}`);
+            this.retainGeneration();
+            fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+            if (fs.existsSync(GENERATIONS_DIR)) {
+                fs.renameSync(GENERATIONS_DIR, path.join(dir, 'generations'));
+            }
+            for (const file of [SALT_FILE, TRANSACTIONS_FILE]) {
+                if (fs.existsSync(file)) {
+                    fs.renameSync(file, path.join(dir, path.basename(file)));
+                }
+            }
+            fs.rmSync(WALLETS_FILE, { force: true });
+            log.info(LogCategory.STORAGE, `Kept previous wallet versions in ${dir}`);
+            return dir;
+        }
         try {
             if (fs.existsSync(WALLETS_FILE)) {
                 fs.unlinkSync(WALLETS_FILE);
@@ -411,13 +1269,15 @@ class SecureStorage {
             if (fs.existsSync(TRANSACTIONS_FILE)) {
                 fs.unlinkSync(TRANSACTIONS_FILE);
             }
-            const saltFile = path.join(STORAGE_DIR, 'salt.enc');
-            if (fs.existsSync(saltFile)) {
-                fs.unlinkSync(saltFile);
+            if (fs.existsSync(SALT_FILE)) {
+                fs.unlinkSync(SALT_FILE);
             }
+            this.clearGenerations();
+            fs.rmSync(BACKUP_DIR, { recursive: true, force: true });
         } catch (error) {
             log.storageError('Clear All Data', error);
         }
+        return null;
     }
 
     // Public method to encrypt data
@@ -428,6 +1288,35 @@ class SecureStorage {
         return this.encrypt(data, this.masterKey);
     }
 
+    // Public method to decrypt data encrypted with encryptData
+    public decryptData(data: string): string {
+        if (!this.masterKey) {
+            throw new Error('Master password not set');
+        }
+        return this.decrypt(data, this.masterKey);
+    }
+
+    // Replace the whole transaction history
+    async replaceTransactions(records: TransactionRecord[]): Promise<void> {
+        if (!this.masterKey) {
+            throw new Error('Master password not set');
+        }
+        this.writeTransactions(records);
+    }
+
+    loadUserProfile(): UserProfile | null {
+        try {
+            return fs.existsSync(USER_FILE) ? JSON.parse(fs.readFileSync(USER_FILE, 'utf8')) : null;
+        } catch (error) {
+            log.warn(LogCategory.STORAGE, 'Failed to load user profile', error);
+            return null;
+        }
+    }
+
+    saveUserProfile(profile: UserProfile): void {
+        this.writeFileAtomic(USER_FILE, JSON.stringify(profile, null, 2));
+    }
+
     // Public method to get master key
     public     getMasterKey(): Buffer | null {
         return this.masterKey;
@@ -435,6 +1324,7 @@ class SecureStorage {
 
     clearMasterKey(): void {
         this.masterKey = null;
+        this.kdf = null;
     }
 
     getConfig(): WalletConfig {
@@ -445,6 +1335,11 @@ class SecureStorage {
         this.config = { ...this.config, ...updates };
         this.saveConfig();
     }
+
+    replaceConfig(config: WalletConfig): void {
+        this.config = { ...DEFAULT_CONFIG, ...config, schemaVersion: SCHEMA_VERSION };
+        this.saveConfig();
+    }
 }
 
 export const secureStorage = new SecureStorage();
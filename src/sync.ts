@@ -0,0 +1,460 @@
+/**
+ * Incoming transfer sync for EtherVault3 CLI
+ * Finds the blocks where each account's balance or nonce changed since its checkpoint and records ETH and ERC-20 receives
+ */
+
+import { ethers } from "ethers";
+import * as crypto from "crypto";
+import { getProvider } from "./provider.js";
+import { secureStorage } from "./storage.js";
+import type { StoredWallet, TransactionRecord } from "./storage.js";
+import { getTokens } from "./tokens.js";
+import type { TokenInfo } from "./tokens.js";
+import { log, LogCategory } from "./logger.js";
+
+export interface SyncOptions {
+    fromBlock?: number; // Rescan from here instead of the saved checkpoint
+    maxBlocks?: number; // Upper bound on blocks scanned in one run
+}
+
+// ETH that reached an account in a block without a transaction the sync could attribute it to
+export interface UnrecordedReceive {
+    address: string;
+    blockNumber: number;
+    amount: string; // ETH
+}
+
+export interface SyncResult {
+    fromBlock: number;
+    toBlock: number; // Last block scanned; becomes the new checkpoint
+    latest: number; // Chain head when the sync started
+    received: TransactionRecord[]; // Newly saved receive records
+    method: 'state' | 'blocks'; // Blocks found by balance/nonce bisection, or every block fetched (RPC without history)
+    blocksFetched: number; // Full blocks downloaded to look for ETH transfers
+    unrecorded: UnrecordedReceive[]; // e.g. contract payouts on an RPC without trace_block, or validator withdrawals
+}
+
+// How far back the first sync of an account looks
+export const INITIAL_LOOKBACK_BLOCKS = 1000;
+export const DEFAULT_MAX_BLOCKS = 2000;
+
+// Blocks fetched concurrently, and block span per eth_getLogs request (public RPCs cap the range)
+const BLOCK_BATCH_SIZE = 10;
+const LOG_CHUNK_SIZE = 500;
+
+const TRANSFER_TOPIC = ethers.id("Transfer(address,address,uint256)");
+
+function receiveKey(hash: string, to: string, token?: string, logIndex?: number): string {
+    return [hash.toLowerCase(), to.toLowerCase(), token?.toLowerCase() ?? '', logIndex ?? ''].join(':');
+}
+
+interface AccountState {
+    balance: bigint;
+    nonce: number;
+}
+
+// Block where an account's balance or nonce changed, with its state before and after that block
+interface ActiveBlock {
+    address: string; // Lowercase
+    blockNumber: number;
+    before: AccountState;
+    after: AccountState;
+}
+
+interface EthReceive {
+    tx: ethers.TransactionResponse;
+    block: ethers.Block;
+    to: string;
+    from: string; // Sender of the ETH: the transaction sender, or the contract for an internal transfer
+    value: bigint;
+    internal: boolean;
+}
+
+async function accountState(provider: ethers.Provider, address: string, blockNumber: number): Promise<AccountState> {
+    if (blockNumber < 0) {
+        return { balance: 0n, nonce: 0 };
+    }
+    const [balance, nonce] = await Promise.all([
+        provider.getBalance(address, blockNumber),
+        provider.getTransactionCount(address, blockNumber)
+    ]);
+    return { balance, nonce };
+}
+
+// Bisect on balance and nonce. Without a send (same nonce) an account's ETH can only grow,
+// so a range whose ends match holds no transfer in or out and is skipped without fetching a block
+async function findActiveBlocks(
+    provider: ethers.Provider,
+    address: string,
+    from: number,
+    to: number,
+    before: AccountState,
+    after: AccountState,
+    found: ActiveBlock[]
+): Promise<void> {
+    if (before.nonce === after.nonce && before.balance === after.balance) {
+        return;
+    }
+    if (from === to) {
+        found.push({ address, blockNumber: from, before, after });
+        return;
+    }
+    const middle = Math.floor((from + to) / 2);
+    const state = await accountState(provider, address, middle);
+    await Promise.all([
+        findActiveBlocks(provider, address, from, middle, before, state, found),
+        findActiveBlocks(provider, address, middle + 1, to, state, after, found)
+    ]);
+}
+
+async function fetchBlocks(provider: ethers.Provider, numbers: number[]): Promise<Map<number, ethers.Block>> {
+    const blocks = new Map<number, ethers.Block>();
+    for (let start = 0; start < numbers.length; start += BLOCK_BATCH_SIZE) {
+        const batch = await Promise.all(numbers.slice(start, start + BLOCK_BATCH_SIZE).map(n => provider.getBlock(n, true)));
+        for (const block of batch) {
+            if (block) {
+                blocks.set(block.number, block);
+            }
+        }
+    }
+    return blocks;
+}
+
+// Value calls into `address` made by contracts within the block's transactions; null if the RPC has no trace API
+async function traceInternalTransfers(
+    provider: ethers.JsonRpcApiProvider,
+    blockNumber: number,
+    address: string
+): Promise<Array<{ hash: string; from: string; value: bigint }> | null> {
+    let traces: any[];
+    try {
+        traces = await provider.send("trace_block", [ethers.toQuantity(blockNumber)]);
+    } catch {
+        return null;
+    }
+    return (Array.isArray(traces) ? traces : [])
+        .filter(trace => trace?.type === 'call' && !trace.error && trace.traceAddress?.length > 0
+            && trace.action?.to?.toLowerCase() === address && BigInt(trace.action.value ?? 0) > 0n)
+        .map(trace => ({ hash: trace.transactionHash, from: ethers.getAddress(trace.action.from), value: BigInt(trace.action.value) }));
+}
+
+// ETH receives in the blocks where balances changed. A balance rise that top-level transfers don't explain
+// comes from a contract (or a withdrawal); trace_block names the transaction when the RPC supports it
+async function scanActiveBlocks(
+    provider: ethers.JsonRpcApiProvider,
+    active: ActiveBlock[],
+    getReceipt: (hash: string) => Promise<ethers.TransactionReceipt | null>
+): Promise<{ receives: EthReceive[]; unrecorded: UnrecordedReceive[]; blocksFetched: number }> {
+    const blocks = await fetchBlocks(provider, [...new Set(active.map(a => a.blockNumber))].sort((a, b) => a - b));
+    const receives: EthReceive[] = [];
+    const unrecorded: UnrecordedReceive[] = [];
+    let traceSupported = true;
+
+    for (const { address, blockNumber, before, after } of active) {
+        const block = blocks.get(blockNumber);
+        if (!block) {
+            continue;
+        }
+
+        let explained = 0n;
+        for (const tx of block.prefetchedTransactions) {
+            const incoming = tx.to?.toLowerCase() === address && tx.value > 0n;
+            const outgoing = tx.from.toLowerCase() === address;
+            if (!incoming && !outgoing) {
+                continue;
+            }
+            const receipt = await getReceipt(tx.hash);
+            if (!receipt) {
+                continue;
+            }
+            const succeeded = receipt.status === 1;
+            if (incoming && succeeded) {
+                explained += tx.value;
+                receives.push({ tx, block, to: ethers.getAddress(tx.to!), from: tx.from, value: tx.value, internal: false });
+            }
+            if (outgoing) {
+                explained -= (succeeded ? tx.value : 0n) + receipt.gasUsed * receipt.gasPrice;
+            }
+        }
+
+        let unexplained = after.balance - before.balance - explained;
+        if (unexplained <= 0n) {
+            continue;
+        }
+        const internal = traceSupported ? await traceInternalTransfers(provider, blockNumber, address) : null;
+        if (internal === null) {
+            traceSupported = false;
+        }
+        for (const transfer of internal ?? []) {
+            const tx = block.prefetchedTransactions.find(t => t.hash === transfer.hash);
+            if (!tx) {
+                continue;
+            }
+            // Several payouts within one transaction become one record
+            const earlier = receives.find(r => r.internal && r.tx.hash === tx.hash && r.to.toLowerCase() === address);
+            if (earlier) {
+                earlier.value += transfer.value;
+            } else {
+                receives.push({ tx, block, to: ethers.getAddress(address), from: transfer.from, value: transfer.value, internal: true });
+            }
+            unexplained -= transfer.value;
+        }
+        if (unexplained > 0n) {
+            unrecorded.push({ address: ethers.getAddress(address), blockNumber, amount: ethers.formatEther(unexplained) });
+        }
+    }
+
+    return { receives, unrecorded, blocksFetched: blocks.size };
+}
+
+// ETH sent straight to one of the accounts, from every block in the range; for RPCs without historical state
+async function scanEthTransfers(
+    provider: ethers.Provider,
+    fromBlock: number,
+    toBlock: number,
+    startFor: Map<string, number>
+): Promise<EthReceive[]> {
+    const matches: EthReceive[] = [];
+
+    for (let start = fromBlock; start <= toBlock; start += BLOCK_BATCH_SIZE) {
+        const numbers: number[] = [];
+        for (let n = start; n <= Math.min(start + BLOCK_BATCH_SIZE - 1, toBlock); n++) {
+            numbers.push(n);
+        }
+        const blocks = await fetchBlocks(provider, numbers);
+
+        for (const block of blocks.values()) {
+            for (const tx of block.prefetchedTransactions) {
+                const start = tx.to ? startFor.get(tx.to.toLowerCase()) : undefined;
+                if (start !== undefined && block.number >= start && tx.value > 0n) {
+                    matches.push({ tx, block, to: ethers.getAddress(tx.to!), from: tx.from, value: tx.value, internal: false });
+                }
+            }
+        }
+    }
+
+    return matches;
+}
+
+// Blocks where any account's state changed, or null when the RPC cannot answer for past blocks (not an archive node)
+async function findAccountActivity(
+    provider: ethers.Provider,
+    toBlock: number,
+    startFor: Map<string, number>
+): Promise<ActiveBlock[] | null> {
+    const found: ActiveBlock[] = [];
+    try {
+        await Promise.all([...startFor].map(async ([address, start]) => {
+            if (start > toBlock) {
+                return;
+            }
+            const [before, after] = await Promise.all([
+                accountState(provider, address, start - 1),
+                accountState(provider, address, toBlock)
+            ]);
+            await findActiveBlocks(provider, address, start, toBlock, before, after, found);
+        }));
+    } catch (error: any) {
+        log.warn(LogCategory.NETWORK, `Historical balance lookup failed, scanning every block instead: ${error?.error?.message ?? error?.shortMessage ?? error?.message ?? error}`);
+        return null;
+    }
+    return found.sort((a, b) => a.blockNumber - b.blockNumber);
+}
+
+// ERC-20 Transfer events of registered tokens whose recipient is one of the accounts
+async function scanTokenTransfers(
+    provider: ethers.Provider,
+    tokens: TokenInfo[],
+    fromBlock: number,
+    toBlock: number,
+    startFor: Map<string, number>
+): Promise<ethers.Log[]> {
+    if (tokens.length === 0) {
+        return [];
+    }
+
+    const recipients = [...startFor.keys()].map(address => ethers.zeroPadValue(address, 32));
+    const logs: ethers.Log[] = [];
+
+    for (let start = fromBlock; start <= toBlock; start += LOG_CHUNK_SIZE) {
+        const chunk = await provider.getLogs({
+            address: tokens.map(t => t.address),
+            topics: [TRANSFER_TOPIC, null, recipients],
+            fromBlock: start,
+            toBlock: Math.min(start + LOG_CHUNK_SIZE - 1, toBlock)
+        });
+        logs.push(...chunk);
+    }
+
+    // ERC-721 shares the event signature but indexes the token ID as a fourth topic
+    return logs.filter(entry => {
+        if (entry.topics.length !== 3) {
+            return false;
+        }
+        const to = ethers.getAddress(ethers.dataSlice(entry.topics[2]!, 12));
+        const start = startFor.get(to.toLowerCase());
+        return start !== undefined && entry.blockNumber >= start;
+    });
+}
+
+// What the sync could not see, for display after the results
+export function describeSyncCoverage(result: SyncResult): string[] {
+    const notes = result.method === 'state'
+        ? [`Fetched ${result.blocksFetched} block(s) where balances changed; ETH paid out by contracts is identified when the RPC supports trace_block.`]
+        : [`The RPC has no historical balances, so all ${result.blocksFetched} block(s) were fetched and only ETH sent directly by a transaction was checked; ETH paid out by contracts is not recorded.`];
+    for (const missed of result.unrecorded) {
+        notes.push(`${missed.amount} ETH reached ${missed.address} in block ${missed.blockNumber} without a transaction it could be matched to (a contract payout the RPC cannot trace, or a validator withdrawal); not recorded.`);
+    }
+    return notes;
+}
+
+// Scan for transfers into the given accounts and save new receive records
+export async function syncIncomingTransfers(
+    wallet: StoredWallet,
+    accountIndices: number[],
+    options: SyncOptions = {}
+): Promise<SyncResult> {
+    const provider = getProvider(wallet.network);
+    const accounts = accountIndices.map(index => {
+        const account = wallet.accounts[index];
+        if (!account) {
+            throw new Error(`Account ${index} not found`);
+        }
+        return account;
+    });
+    if (accounts.length === 0) {
+        throw new Error("No accounts selected for sync");
+    }
+
+    const maxBlocks = options.maxBlocks ?? DEFAULT_MAX_BLOCKS;
+    if (!Number.isInteger(maxBlocks) || maxBlocks <= 0) {
+        throw new Error(`Invalid block count: ${maxBlocks}`);
+    }
+
+    const latest = await provider.getBlockNumber();
+
+    // First block still to scan for each account, keyed by lowercase address
+    const startFor = new Map<string, number>();
+    for (const account of accounts) {
+        const start = options.fromBlock
+            ?? (account.lastSyncedBlock !== undefined
+                ? account.lastSyncedBlock + 1
+                : Math.max(0, latest - INITIAL_LOOKBACK_BLOCKS + 1));
+        startFor.set(account.address.toLowerCase(), start);
+    }
+
+    const fromBlock = Math.min(...startFor.values());
+    const toBlock = Math.min(latest, fromBlock + maxBlocks - 1);
+    if (fromBlock > toBlock) {
+        return { fromBlock, toBlock: latest, latest, received: [], method: 'state', blocksFetched: 0, unrecorded: [] };
+    }
+
+    log.progress(`Scanning blocks ${fromBlock} to ${toBlock} on ${wallet.network}...`);
+
+    const receipts = new Map<string, ethers.TransactionReceipt | null>();
+    const getReceipt = async (hash: string) => {
+        if (!receipts.has(hash)) {
+            receipts.set(hash, await provider.getTransactionReceipt(hash));
+        }
+        return receipts.get(hash) ?? null;
+    };
+
+    const tokens = getTokens(wallet.network);
+    const active = await findAccountActivity(provider, toBlock, startFor);
+    const eth = active
+        ? { method: 'state' as const, ...(await scanActiveBlocks(provider, active, getReceipt)) }
+        : { method: 'blocks' as const, receives: await scanEthTransfers(provider, fromBlock, toBlock, startFor), unrecorded: [], blocksFetched: toBlock - fromBlock + 1 };
+    const tokenLogs = await scanTokenTransfers(provider, tokens, fromBlock, toBlock, startFor);
+
+    const existing = await secureStorage.loadTransactions(wallet.id);
+    const seen = new Set(
+        existing
+            .filter(tx => tx.type === 'receive')
+            .map(tx => receiveKey(tx.hash, tx.to, tx.token, tx.logIndex))
+    );
+    const blockTimes = new Map<number, number>();
+    const getBlockTime = async (blockNumber: number) => {
+        if (!blockTimes.has(blockNumber)) {
+            const block = await provider.getBlock(blockNumber);
+            blockTimes.set(blockNumber, block?.timestamp ?? Math.floor(Date.now() / 1000));
+        }
+        return blockTimes.get(blockNumber)!;
+    };
+
+    const received: TransactionRecord[] = [];
+
+    for (const { tx, block, to, from, value, internal } of eth.receives) {
+        const key = receiveKey(tx.hash, to);
+        if (seen.has(key)) {
+            continue;
+        }
+        const receipt = await getReceipt(tx.hash);
+        if (!receipt || receipt.status === 0) {
+            continue;
+        }
+        seen.add(key);
+        received.push({
+            id: crypto.randomUUID(),
+            walletId: wallet.id,
+            type: 'receive',
+            hash: tx.hash,
+            from,
+            to,
+            amount: ethers.formatEther(value),
+            ...(internal && { internal }),
+            network: wallet.network,
+            gasUsed: receipt.gasUsed.toString(),
+            gasPrice: receipt.gasPrice.toString(),
+            txType: tx.type,
+            blockNumber: block.number,
+            timestamp: new Date(block.timestamp * 1000).toISOString(),
+            status: 'confirmed'
+        });
+    }
+
+    for (const entry of tokenLogs) {
+        const token = tokens.find(t => t.address.toLowerCase() === entry.address.toLowerCase());
+        if (!token) {
+            continue;
+        }
+        const to = ethers.getAddress(ethers.dataSlice(entry.topics[2]!, 12));
+        const key = receiveKey(entry.transactionHash, to, token.address, entry.index);
+        if (seen.has(key)) {
+            continue;
+        }
+        seen.add(key);
+
+        const receipt = await getReceipt(entry.transactionHash);
+        const timestamp = await getBlockTime(entry.blockNumber);
+        received.push({
+            id: crypto.randomUUID(),
+            walletId: wallet.id,
+            type: 'receive',
+            hash: entry.transactionHash,
+            from: ethers.getAddress(ethers.dataSlice(entry.topics[1]!, 12)),
+            to,
+            amount: ethers.formatUnits(BigInt(entry.data), token.decimals),
+            token: token.address,
+            tokenSymbol: token.symbol,
+            logIndex: entry.index,
+            network: wallet.network,
+            gasUsed: receipt?.gasUsed.toString() ?? "0",
+            gasPrice: receipt?.gasPrice.toString() ?? "0",
+            blockNumber: entry.blockNumber,
+            timestamp: new Date(timestamp * 1000).toISOString(),
+            status: 'confirmed'
+        });
+    }
+
+    received.sort((a, b) => a.blockNumber - b.blockNumber);
+    if (received.length > 0) {
+        await secureStorage.saveTransactions(received);
+    }
+    await secureStorage.setSyncCheckpoint(wallet.id, accountIndices, toBlock);
+    for (const account of accounts) {
+        account.lastSyncedBlock = Math.max(account.lastSyncedBlock ?? 0, toBlock);
+    }
+    log.info(LogCategory.STORAGE, `Sync checkpoint saved at block ${toBlock}`, { received: received.length });
+
+    return { fromBlock, toBlock, latest, received, method: eth.method, blocksFetched: eth.blocksFetched, unrecorded: eth.unrecorded };
+}
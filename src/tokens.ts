@@ -0,0 +1,126 @@
+/**
+ * ERC-20 token registry for EtherVault3 CLI
+ * Built-in tokens per network plus user-registered tokens saved in config.json
+ */
+
+import { ethers } from "ethers";
+import { secureStorage } from "./storage.js";
+
+export interface TokenInfo {
+    address: string; // Checksummed contract address
+    symbol: string;
+    decimals: number;
+    name?: string;
+}
+
+export interface TokenBalance {
+    token: TokenInfo;
+    balance: string; // Decimal units, e.g. "12.5"
+    raw: bigint;
+}
+
+export const ERC20_ABI = [
+    "function name() view returns (string)",
+    "function symbol() view returns (string)",
+    "function decimals() view returns (uint8)",
+    "function balanceOf(address owner) view returns (uint256)",
+    "function transfer(address to, uint256 amount) returns (bool)",
+    "event Transfer(address indexed from, address indexed to, uint256 value)"
+];
+
+// Well-known tokens shipped with the wallet
+const DEFAULT_TOKENS: { [network: string]: TokenInfo[] } = {
+    mainnet: [
+        { address: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48", symbol: "USDC", decimals: 6, name: "USD Coin" },
+        { address: "0xdAC17F958D2ee523a2206206994597C13D831ec7", symbol: "USDT", decimals: 6, name: "Tether USD" },
+        { address: "0x6B175474E89094C44Da98b954EedeAC495271d0F", symbol: "DAI", decimals: 18, name: "Dai Stablecoin" }
+    ],
+    sepolia: [
+        { address: "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238", symbol: "USDC", decimals: 6, name: "USD Coin" }
+    ]
+};
+
+export function getTokens(network: string): TokenInfo[] {
+    const custom = secureStorage.getConfig().tokens?.[network] ?? [];
+    const tokens = [...(DEFAULT_TOKENS[network] ?? [])];
+    for (const token of custom) {
+        if (!tokens.some(t => t.address.toLowerCase() === token.address.toLowerCase())) {
+            tokens.push(token);
+        }
+    }
+    return tokens;
+}
+
+// Look a token up by symbol (case-insensitive) or contract address
+export function findToken(network: string, ref: string): TokenInfo | null {
+    const needle = ref.trim().toLowerCase();
+    const tokens = getTokens(network);
+    return tokens.find(t => t.address.toLowerCase() === needle)
+        ?? tokens.find(t => t.symbol.toLowerCase() === needle)
+        ?? null;
+}
+
+// Read symbol/decimals from the contract itself so the registry can't drift from chain state
+export async function fetchTokenInfo(provider: ethers.Provider, address: string): Promise<TokenInfo> {
+    let checksummed: string;
+    try {
+        checksummed = ethers.getAddress(address.trim());
+    } catch {
+        throw new Error(`Invalid address: ${address}`);
+    }
+
+    const code = await provider.getCode(checksummed);
+    if (code === "0x") {
+        throw new Error(`No contract deployed at ${checksummed}`);
+    }
+
+    const contract = new ethers.Contract(checksummed, ERC20_ABI, provider);
+    const [symbol, decimals] = await Promise.all([
+        contract.getFunction("symbol")() as Promise<string>,
+        contract.getFunction("decimals")() as Promise<bigint>
+    ]);
+    let name: string | undefined;
+    try {
+        name = await contract.getFunction("name")();
+    } catch {
+        // name() is optional in ERC-20
+    }
+
+    return { address: checksummed, symbol, decimals: Number(decimals), ...(name && { name }) };
+}
+
+export function addToken(network: string, token: TokenInfo): void {
+    const config = secureStorage.getConfig();
+    const tokens = { ...(config.tokens ?? {}) };
+    const list = (tokens[network] ?? []).filter(t => t.address.toLowerCase() !== token.address.toLowerCase());
+    list.push(token);
+    tokens[network] = list;
+    secureStorage.updateConfig({ tokens });
+}
+
+export function removeToken(network: string, address: string): boolean {
+    const config = secureStorage.getConfig();
+    const list = config.tokens?.[network] ?? [];
+    const remaining = list.filter(t => t.address.toLowerCase() !== address.toLowerCase());
+    if (remaining.length === list.length) {
+        return false;
+    }
+    secureStorage.updateConfig({ tokens: { ...config.tokens, [network]: remaining } });
+    return true;
+}
+
+export async function getTokenBalance(provider: ethers.Provider, token: TokenInfo, owner: string): Promise<TokenBalance> {
+    const contract = new ethers.Contract(token.address, ERC20_ABI, provider);
+    const raw: bigint = await contract.getFunction("balanceOf")(owner);
+    return { token, balance: ethers.formatUnits(raw, token.decimals), raw };
+}
+
+// Balances for every registered token; tokens that fail to answer are skipped
+export async function getTokenBalances(provider: ethers.Provider, network: string, owner: string): Promise<TokenBalance[]> {
+    const results = await Promise.allSettled(
+        getTokens(network).map(token => getTokenBalance(provider, token, owner))
+    );
+    return results
+        .filter((r): r is PromiseFulfilledResult<TokenBalance> => r.status === 'fulfilled')
+        .map(r => r.value);
+}
@@ -1,13 +1,33 @@
 import { Wallet, HDNodeWallet, ethers } from "ethers";
-import { NETWORKS } from "./networks.js";
+import { getNetworkNames, getCurrencySymbol, explorerTxUrl } from "./networks.js";
+import { getProvider, ChainMismatchError, describeChain } from "./provider.js";
+import type { FailoverProvider, ResolvedChain } from "./provider.js";
 import inquirer from "inquirer";
-import { secureStorage } from "./storage.js";
+import { secureStorage, isHdWallet, isKeyWallet, isWatchOnly } from "./storage.js";
 import chalk from "chalk";
 import { log, LogCategory } from "./logger.js";
 import type { StoredWallet, TransactionRecord, WalletAccount } from "./storage.js";
 import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { resolveFees, feeRequestFields, feeRecordFields, maxPricePerGas, describeFees, promptFeeSettings } from "./fees.js";
+import type { FeeSettings, ResolvedFees } from "./fees.js";
+import { ERC20_ABI, getTokens, getTokenBalance, getTokenBalances, fetchTokenInfo, addToken } from "./tokens.js";
+import type { TokenInfo, TokenBalance } from "./tokens.js";
+import { getNftCollections, saveNftCollection, detectNftCollection, isEnumerable, getOwnedNfts, fetchNftMetadata, encodeNftTransfer } from "./nfts.js";
+import type { NftCollection, OwnedNft } from "./nfts.js";
+import { syncIncomingTransfers, describeSyncCoverage, INITIAL_LOOKBACK_BLOCKS } from "./sync.js";
+import { PATH_TEMPLATES, DEFAULT_PATH_TEMPLATE, validatePathTemplate, derivationPath, describePathTemplate } from "./paths.js";
+import { discoverAccounts, getDiscoveryOptions } from "./discovery.js";
+import { DEFAULT_WORDLIST, MNEMONIC_WORD_COUNTS, WORDLIST_NAMES, checkMnemonic, completeWord, describeWordlist, mnemonicFromPhrase, normalizeWord, splitPhrase } from "./mnemonic.js";
+import type { CheckedMnemonic } from "./mnemonic.js";
+import { MAX_SHARES, splitMnemonic, parseShare, combineShares } from "./shamir.js";
+import type { DiscoveredAccount } from "./discovery.js";
 
 let currentMnemonic = "";
+let currentPassphrase = "";
+let currentPathTemplate = DEFAULT_PATH_TEMPLATE;
+let currentWordlist = DEFAULT_WORDLIST;
 let currentWalletId: string | null = null;
 
 // Error handling utilities
@@ -31,12 +51,31 @@ function handleWalletError(error: any, context: string): void {
             userMessage = "Invalid address format. Please check the address and try again.";
         } else if (error.message.includes('Invalid amount')) {
             userMessage = "Invalid amount. Please enter a valid number greater than 0.";
+        } else if (error.message.includes('Invalid passphrase')) {
+            userMessage = "The passphrases do not match. Please try again.";
+        } else if (error.message.includes('keystore') || error.message.includes('already saved in wallet') || error.message.includes('watch-only') || error.message.includes('Invalid mnemonic')
+            || error.message.includes('Invalid share') || error.message.includes('different split') || error.message.includes('different shares') || error.message.includes('Broadcast failed')
+            || error.message.includes("can't be read and may be damaged")) {
+            userMessage = error.message;
         }
     }
     
     log.userError(context, userMessage, error);
 }
 
+// "0.5 ETH", "25 USDC" or "1 BAYC #42"
+export function formatTransactionAmount(tx: TransactionRecord): string {
+    const amount = `${tx.amount} ${tx.tokenSymbol ?? 'ETH'}`;
+    return tx.tokenId !== undefined ? `${amount} #${tx.tokenId}` : amount;
+}
+
+function logExplorerLink(network: string, hash: string): void {
+    const url = explorerTxUrl(network, hash);
+    if (url) {
+        log.info(LogCategory.TRANSACTION, `Explorer: ${url}`);
+    }
+}
+
 async function safeWalletExecute<T>(operation: () => Promise<T>, context: string): Promise<T | null> {
     try {
         return await operation();
@@ -46,12 +85,284 @@ async function safeWalletExecute<T>(operation: () => Promise<T>, context: string
     }
 }
 
+// Optional BIP-39 passphrase; never trimmed, since every character changes the derived keys
+async function promptPassphrase(creating: boolean): Promise<string> {
+    if (creating) {
+        const useAnswer = await inquirer.prompt([
+            {
+                type: "confirm",
+                name: "use",
+                message: "Protect the mnemonic with a BIP-39 passphrase (\"25th word\")? (advanced)",
+                default: false
+            }
+        ]);
+        if (!useAnswer.use) {
+            return "";
+        }
+    }
+
+    const answer = await inquirer.prompt([
+        {
+            type: "password",
+            name: "passphrase",
+            message: creating ? "Enter the BIP-39 passphrase:" : "BIP-39 passphrase (leave empty if the wallet has none):",
+            mask: "*",
+            validate: (input: string) => {
+                if (creating && input.length === 0) {
+                    return "Please enter a passphrase. (or press Ctrl+C to exit)";
+                }
+                return true;
+            }
+        }
+    ]);
+
+    if (creating) {
+        const confirmAnswer = await inquirer.prompt([
+            {
+                type: "password",
+                name: "passphrase",
+                message: "Confirm the BIP-39 passphrase:",
+                mask: "*"
+            }
+        ]);
+        if (answer.passphrase !== confirmAnswer.passphrase) {
+            throw new Error("Invalid passphrase: the passphrases do not match");
+        }
+    }
+    return answer.passphrase;
+}
+
+// Path scheme for deriving accounts; defaults to the current one (the wallet's, or BIP44 standard)
+export async function promptPathTemplate(current: string = DEFAULT_PATH_TEMPLATE): Promise<string> {
+    const known = PATH_TEMPLATES.some(t => t.template === current);
+    const answer = await inquirer.prompt([
+        {
+            type: "list",
+            name: "template",
+            message: "Derivation path scheme:",
+            choices: [
+                ...PATH_TEMPLATES.map(t => ({ name: `${t.name} - ${t.template}`, value: t.template })),
+                ...(known ? [] : [{ name: `This wallet's custom path - ${current}`, value: current }]),
+                { name: "✏️  Custom path template", value: "custom" }
+            ],
+            default: current
+        }
+    ]);
+    if (answer.template !== "custom") {
+        return answer.template;
+    }
+
+    const customAnswer = await inquirer.prompt([
+        {
+            type: "input",
+            name: "template",
+            message: "Path template, with x for the account index (e.g. m/44'/60'/0'/x):",
+            validate: (input: string) => {
+                try {
+                    validatePathTemplate(input);
+                    return true;
+                } catch (error: any) {
+                    return `${error.message}. (or press Ctrl+C to exit)`;
+                }
+            }
+        }
+    ]);
+    return validatePathTemplate(customAnswer.template);
+}
+
+// Phrase pasted whole, or typed word by word with completion from the wordlist; the checksum is verified either way
+async function promptMnemonic(): Promise<CheckedMnemonic> {
+    const methodAnswer = await inquirer.prompt([
+        {
+            type: "list",
+            name: "method",
+            message: "How do you want to enter the mnemonic?",
+            choices: [
+                { name: "Paste the whole phrase", value: "phrase" },
+                { name: "Word by word, with autocompletion", value: "words" }
+            ]
+        }
+    ]);
+
+    if (methodAnswer.method === "phrase") {
+        const answer = await inquirer.prompt([
+            {
+                type: "input",
+                name: "mnemonic",
+                message: `Enter your mnemonic phrase (${MNEMONIC_WORD_COUNTS.join('/')} words, any BIP-39 language):`,
+                validate: (input: string) => {
+                    if (!input || input.trim().length === 0) {
+                        return "Please enter a mnemonic phrase. (or press Ctrl+C to exit)";
+                    }
+                    try {
+                        checkMnemonic(input);
+                        return true;
+                    } catch (error: any) {
+                        return `${error.message} (or press Ctrl+C to exit)`;
+                    }
+                }
+            }
+        ]);
+        const checked = checkMnemonic(answer.mnemonic);
+        if (checked.candidates.length === 1) {
+            return checked;
+        }
+        const languageAnswer = await inquirer.prompt([
+            {
+                type: "list",
+                name: "locale",
+                message: "This phrase is valid in more than one wordlist. Which language was it created in?",
+                choices: checked.candidates.map(locale => ({ name: describeWordlist(locale), value: locale }))
+            }
+        ]);
+        return checkMnemonic(answer.mnemonic, languageAnswer.locale);
+    }
+
+    const setupAnswer = await inquirer.prompt([
+        {
+            type: "list",
+            name: "locale",
+            message: "Wordlist language:",
+            choices: Object.entries(WORDLIST_NAMES).map(([value, name]) => ({ name, value }))
+        },
+        {
+            type: "list",
+            name: "count",
+            message: "Number of words:",
+            choices: MNEMONIC_WORD_COUNTS.map(count => ({ name: String(count), value: count }))
+        }
+    ]);
+
+    const words: string[] = [];
+    for (let i = 1; i <= setupAnswer.count; i++) {
+        const wordAnswer = await inquirer.prompt([
+            {
+                type: "search",
+                name: "word",
+                message: `Word ${i} of ${setupAnswer.count}:`,
+                source: (term: string | undefined) => completeWord(term ?? "", setupAnswer.locale).map(word => ({ name: word, value: word }))
+            }
+        ]);
+        words.push(wordAnswer.word);
+    }
+    return checkMnemonic(words.join(" "), setupAnswer.locale);
+}
+
+// Words asked for when checking that a mnemonic was written down
+const BACKUP_QUIZ_WORDS = 3;
+
+// Distinct 1-based word positions in ascending order
+function pickQuizPositions(wordCount: number, count: number): number[] {
+    const positions = new Set<number>();
+    while (positions.size < Math.min(count, wordCount)) {
+        positions.add(crypto.randomInt(1, wordCount + 1));
+    }
+    return [...positions].sort((a, b) => a - b);
+}
+
+// Ask for randomly chosen words until they are all right or the user gives up
+async function runBackupQuiz(mnemonic: string): Promise<boolean> {
+    const words = splitPhrase(mnemonic);
+
+    while (true) {
+        const positions = pickQuizPositions(words.length, BACKUP_QUIZ_WORDS);
+        let correct = true;
+        for (const position of positions) {
+            const answer = await inquirer.prompt([
+                {
+                    type: "input",
+                    name: "word",
+                    message: `Word #${position} of ${words.length}:`
+                }
+            ]);
+            if (normalizeWord(answer.word) !== words[position - 1]) {
+                correct = false;
+            }
+        }
+        if (correct) {
+            return true;
+        }
+
+        const retryAnswer = await inquirer.prompt([
+            {
+                type: "confirm",
+                name: "retry",
+                message: "❌ At least one word was wrong. Check your written copy and try again?",
+                default: true
+            }
+        ]);
+        if (!retryAnswer.retry) {
+            return false;
+        }
+    }
+}
+
+// Marks the wallet as backed up once the quiz is passed
+async function confirmMnemonicBackup(walletId: string, mnemonic: string): Promise<boolean> {
+    console.log(chalk.cyan(`\n📝 Backup check: enter ${BACKUP_QUIZ_WORDS} words of your mnemonic from your written copy.`));
+    const passed = await runBackupQuiz(mnemonic);
+    if (passed) {
+        await secureStorage.markBackedUp(walletId);
+        console.log("✅ Mnemonic backup verified.");
+    } else {
+        console.log(chalk.yellow("⚠️  Backup not verified. Until it is, Manage Wallets will keep reminding you; verify it there any time."));
+    }
+    return passed;
+}
+
+export async function verifyWalletBackup(wallet: StoredWallet): Promise<void> {
+    try {
+        if (!isHdWallet(wallet)) {
+            console.log("❌ Only HD (mnemonic) wallets have a mnemonic to back up.");
+            return;
+        }
+
+        const passwordAnswer = await inquirer.prompt([
+            {
+                type: "password",
+                name: "password",
+                message: "Enter your master password to check your mnemonic backup:",
+                mask: "*",
+                validate: (input: string) => {
+                    if (!input || input.trim().length === 0) {
+                        return "Password cannot be empty. Please enter your master password. (or press Ctrl+C to exit)";
+                    }
+                    return true;
+                }
+            }
+        ]);
+
+        const isValid = await secureStorage.loadMasterPassword(passwordAnswer.password);
+        if (!isValid) {
+            console.log("❌ Invalid master password. Access denied.");
+            secureStorage.clearMasterKey();
+            return;
+        }
+
+        const { mnemonic } = await secureStorage.decryptWallet(wallet);
+        if (!mnemonic) {
+            console.log("❌ This wallet has no stored mnemonic.");
+            return;
+        }
+        if (await confirmMnemonicBackup(wallet.id, mnemonic)) {
+            wallet.backedUp = true;
+        }
+    } catch (error) {
+        handleWalletError(error, "Verify Mnemonic Backup");
+    }
+}
+
 export async function createWallet() {
     try {
+        const passphrase = await promptPassphrase(true);
+
         log.info(LogCategory.WALLET, "Creating new HD wallet...");
         
-        const wallet = HDNodeWallet.createRandom();
+        const wallet = HDNodeWallet.createRandom(passphrase);
         currentMnemonic = wallet.mnemonic?.phrase.trim() || "";
+        currentPassphrase = passphrase;
+        currentPathTemplate = DEFAULT_PATH_TEMPLATE;
+        currentWordlist = DEFAULT_WORDLIST;
 
         log.operationSuccess("Wallet Creation");
         log.info(LogCategory.WALLET, "Wallet Details:");
@@ -59,9 +370,13 @@ export async function createWallet() {
         log.info(LogCategory.WALLET, `Public Key: ${wallet.publicKey}`);
         log.securityWarning("IMPORTANT: Save your mnemonic phrase securely!");
         log.info(LogCategory.WALLET, `Mnemonic: ${wallet.mnemonic?.phrase}`);
+        if (passphrase) {
+            log.securityWarning("This wallet uses a BIP-39 passphrase. The mnemonic alone will NOT restore it; keep the passphrase too!");
+        }
         log.securityWarning("Never share your private key or mnemonic with anyone!");
 
         // Ask if user wants to save the wallet
+        let savedWalletId: string | null = null;
         const saveAnswer = await inquirer.prompt([
             {
                 type: "confirm",
@@ -87,13 +402,32 @@ export async function createWallet() {
             ]);
 
             try {
-                currentWalletId = await secureStorage.saveWallet(wallet, nameAnswer.name.trim());
+                savedWalletId = await secureStorage.saveWallet(wallet, nameAnswer.name.trim());
+                currentWalletId = savedWalletId;
                 log.walletCreated(nameAnswer.name.trim(), wallet.address);
             } catch (error) {
                 log.storageError("Save Wallet", error);
             }
         }
 
+        if (savedWalletId) {
+            const readyAnswer = await inquirer.prompt([
+                {
+                    type: "confirm",
+                    name: "ready",
+                    message: "Have you written the mnemonic down? Continue to verify it (the screen will be cleared)",
+                    default: true
+                }
+            ]);
+            if (readyAnswer.ready) {
+                // Hide the phrase so the check is answered from the written copy
+                console.clear();
+                await confirmMnemonicBackup(savedWalletId, currentMnemonic);
+            } else {
+                console.log(chalk.yellow("⚠️  Backup not verified. Verify it later from Manage Wallets."));
+            }
+        }
+
         return wallet;
     } catch (error) {
         handleWalletError(error, "Create Wallet");
@@ -101,53 +435,57 @@ export async function createWallet() {
     }
 }
 
-export async function importWallet() {
+// A mnemonic rebuilt elsewhere (e.g. from Shamir shares) skips the phrase prompt
+export async function importWallet(recovered?: CheckedMnemonic) {
     try {
         console.log("\n=== Import Wallet from Mnemonic ===");
 
-        const answer = await inquirer.prompt([
-            {
-                type: "input",
-                name: "mnemonic",
-                message: "Enter your 12/24 mnemonic phrase:",
-                validate: (input: string) => {
-                    if (!input || input.trim().length === 0) {
-                        return "Please enter a mnemonic phrase. (or press Ctrl+C to exit)";
-                    }
-                    
-                    const words = input.trim().split(/\s+/);
-                    if (words.length !== 12 && words.length !== 24) {
-                        return "Mnemonic must be 12 or 24 words. (or press Ctrl+C to exit)";
-                    }
-                    
-                    return true;
-                }
-            },
+        const { phrase: mnemonic, locale } = recovered ?? await promptMnemonic();
+        if (locale !== DEFAULT_WORDLIST) {
+            console.log(chalk.gray(`Wordlist: ${describeWordlist(locale)}`));
+        }
+
+        const networkAnswer = await inquirer.prompt([
             {
                 type: "list",
                 name: "network",
                 message: "Select the network to check for existing accounts:",
-                choices: Object.keys(NETWORKS)
+                choices: getNetworkNames()
             }
         ]);
 
-        const mnemonic = answer.mnemonic.trim();
-        const network = answer.network;
+        const network = networkAnswer.network;
+        const passphrase = await promptPassphrase(false);
+        const pathTemplate = await promptPathTemplate();
         
-        // Create Mnemonic object from the phrase 
-        const mnemonicObj = ethers.Mnemonic.fromPhrase(mnemonic);
-        const provider = new ethers.JsonRpcProvider(NETWORKS[network]);
+        // Create Mnemonic object from the phrase; the passphrase changes every derived address
+        const mnemonicObj = mnemonicFromPhrase(mnemonic, passphrase, locale);
+        
+        // Accounts used only on other chains still belong in the wallet
+        const otherNetworks = getNetworkNames().filter(name => name !== network);
+        const extraAnswer = otherNetworks.length > 0 ? await inquirer.prompt([
+            {
+                type: "checkbox",
+                name: "networks",
+                message: "Also scan these networks for activity (optional):",
+                choices: otherNetworks
+            }
+        ]) : { networks: [] };
+        const networks: string[] = [network, ...extraAnswer.networks];
         
-        console.log("\n🔍 Discovering existing accounts...");
+        console.log(`\n🔍 Discovering existing accounts on ${networks.join(', ')}...`);
         console.log("This may take a moment as we check for account activity...\n");
         
         // Discover existing accounts
-        const existingAccounts = await discoverExistingAccounts(mnemonicObj, provider, network);
+        const existingAccounts = await discoverExistingAccounts(mnemonicObj, networks, pathTemplate);
         
         if (existingAccounts.length === 0) {
             console.log("No existing accounts found. Creating default account (index 0).");
-            const defaultWallet = HDNodeWallet.fromMnemonic(mnemonicObj);
+            const defaultWallet = HDNodeWallet.fromMnemonic(mnemonicObj, derivationPath(pathTemplate, 0));
             currentMnemonic = mnemonic;
+            currentPassphrase = passphrase;
+            currentPathTemplate = pathTemplate;
+            currentWordlist = locale;
             
             console.log("\nDefault Account:");
             console.log("-------------------------");
@@ -165,8 +503,9 @@ export async function importWallet() {
         existingAccounts.forEach((account, index) => {
             console.log(`Account ${index + 1} (Index ${account.index}):`);
             console.log(`Address: ${account.wallet.address}`);
-            console.log(`Balance: ${account.balance} ETH`);
-            console.log(`Transactions: ${account.txCount}`);
+            for (const [name, activity] of Object.entries(account.activity)) {
+                console.log(`${name}: ${activity.balance} ${getCurrencySymbol(name)}, ${activity.txCount} txs`);
+            }
             console.log("-------------------------");
         });
         
@@ -203,11 +542,15 @@ export async function importWallet() {
                 const walletId = await secureStorage.saveMultiAccountWallet(
                     existingAccounts,
                     walletNameAnswer.baseName.trim(),
-                    network
+                    network,
+                    pathTemplate
                 );
                 
                 currentWalletId = walletId;
                 currentMnemonic = mnemonic;
+                currentPassphrase = passphrase;
+                currentPathTemplate = pathTemplate;
+                currentWordlist = locale;
                 
                 console.log(`✅ Saved wallet: ${walletNameAnswer.baseName.trim()}`);
                 console.log(`📊 Contains ${existingAccounts.length} account(s)`);
@@ -219,6 +562,9 @@ export async function importWallet() {
         } else {
             // User chose not to save, just set the first account as current
             currentMnemonic = mnemonic;
+            currentPassphrase = passphrase;
+            currentPathTemplate = pathTemplate;
+            currentWordlist = locale;
             console.log("\n✅ Wallet imported (not saved). You can save it later from the main menu.");
         }
         
@@ -230,80 +576,30 @@ export async function importWallet() {
     }
 }
 
-// Helper function to discover existing accounts
+// Scan the mnemonic's accounts on every selected network, printing each index as it is checked
 async function discoverExistingAccounts(
-    mnemonicObj: ethers.Mnemonic, 
-    provider: ethers.JsonRpcProvider, 
-    network: string
-): Promise<Array<{
-    index: number;
-    wallet: HDNodeWallet;
-    balance: string;
-    txCount: number;
-}>> {
-    const accounts: Array<{
-        index: number;
-        wallet: HDNodeWallet;
-        balance: string;
-        txCount: number;
-    }> = [];
-    
-    let index = 0;
-    let consecutiveEmptyAccounts = 0;
-    const maxConsecutiveEmpty = 3; // Stop after 3 consecutive empty accounts
-    const maxAccountsToCheck = 20; // Safety limit
-    
-    while (index < maxAccountsToCheck && consecutiveEmptyAccounts < maxConsecutiveEmpty) {
-        try {
-            const path = `m/44'/60'/0'/0/${index}`;
-            const wallet = HDNodeWallet.fromMnemonic(mnemonicObj, path);
-            
-            // Check balance
-            const balance = await provider.getBalance(wallet.address);
-            const balanceInEther = ethers.formatEther(balance);
-            
-            // Check transaction count (this is a rough indicator of activity)
-            // Note: This is an approximation - some networks don't support getTransactionCount
-            let txCount = 0;
-            try {
-                txCount = await provider.getTransactionCount(wallet.address);
-            } catch (error) {
-                // If we can't get transaction count, use balance as indicator
-                txCount = parseFloat(balanceInEther) > 0 ? 1 : 0;
-            }
-            
-            // Consider an account "active" if it has:
-            // 1. Non-zero balance, OR
-            // 2. Has sent/received transactions (txCount > 0)
-            const isActive = parseFloat(balanceInEther) > 0 || txCount > 0;
-            
-            if (isActive) {
-                accounts.push({
-                    index,
-                    wallet,
-                    balance: balanceInEther,
-                    txCount
-                });
-                consecutiveEmptyAccounts = 0; // Reset counter
-                console.log(`✓ Found active account at index ${index}: ${wallet.address} (${balanceInEther} ETH, ${txCount} txs)`);
-            } else {
-                consecutiveEmptyAccounts++;
-                console.log(`- Checking index ${index}: ${wallet.address} (empty)`);
-            }
-            
-            index++;
-            
-            // Add small delay to avoid rate limiting
-            await new Promise(resolve => setTimeout(resolve, 100));
-            
-        } catch (error) {
-            console.log(`Error checking account at index ${index}:`, error);
-            consecutiveEmptyAccounts++;
-            index++;
+    mnemonicObj: ethers.Mnemonic,
+    networks: string[],
+    pathTemplate: string
+): Promise<DiscoveredAccount[]> {
+    const options = getDiscoveryOptions();
+    console.log(chalk.gray(`Gap limit ${options.gapLimit}, up to ${options.maxAccounts} accounts, ${options.batchSize} per batch`));
+
+    const result = await discoverAccounts(mnemonicObj, pathTemplate, networks, options, (index, address, activity) => {
+        const used = Object.entries(activity).filter(([, a]) => a.txCount > 0 || parseFloat(a.balance) > 0);
+        if (used.length > 0) {
+            const summary = used.map(([network, a]) => `${network}: ${a.balance} ${getCurrencySymbol(network)}, ${a.txCount} txs`).join('; ');
+            console.log(`✓ Found active account at index ${index}: ${address} (${summary})`);
+        } else {
+            console.log(`- Checking index ${index}: ${address} (empty)`);
         }
+    });
+
+    if (result.failedNetworks.length > 0) {
+        console.log(chalk.yellow(`⚠️  Could not scan ${result.failedNetworks.join(', ')}; accounts used only there may be missing.`));
     }
-    
-    return accounts;
+    console.log(chalk.gray(`Checked ${result.checked} account index(es).`));
+    return result.accounts;
 }
 
 
@@ -333,12 +629,12 @@ export async function deriveAccounts() {
      ]);
 
      const count = parseInt(answer.count);
-     const Mnemonic = ethers.Mnemonic.fromPhrase(currentMnemonic);
+     const Mnemonic = mnemonicFromPhrase(currentMnemonic, currentPassphrase, currentWordlist);
 
      console.log(`\nDeriving ${count} accounts...\n`);
 
      for(let i=0; i<count; i++){
-        const path = `m/44'/60'/0'/0/${i}`;
+        const path = derivationPath(currentPathTemplate, i);
         const wallet = HDNodeWallet.fromMnemonic(Mnemonic, path);
 
         console.log(`Account ${i + 1}:`);
@@ -350,6 +646,13 @@ export async function deriveAccounts() {
 
 }
 
+// Resolve an address balance (in ETH) on a named network without prompting
+export async function getAddressBalance(address: string, network: string): Promise<string> {
+    const provider = getProvider(network);
+    const balance = await provider.getBalance(ethers.getAddress(address.trim()));
+    return ethers.formatEther(balance);
+}
+
 export async function checkBalance() {
     try {
         console.log("\n=== Check Balance ===");
@@ -372,21 +675,17 @@ export async function checkBalance() {
                 type: "list",
                 name: "network",
                 message: "Select the network:",
-                choices: Object.keys(NETWORKS)
+                choices: getNetworkNames()
             }
         ]);
                 
         const address = answer.address.trim();
         const networkName = answer.network;
-        const rpcUrl = NETWORKS[networkName];
-        const provider = new ethers.JsonRpcProvider(rpcUrl);
-
-        const balance = await provider.getBalance(address);
-        const balanceInEther = ethers.formatEther(balance);
+        const balanceInEther = await getAddressBalance(address, networkName);
 
         console.log("\nBalance for address:", address);
         console.log("Network:", networkName);
-        console.log("Balance:", balanceInEther, "ETH\n");
+        console.log("Balance:", balanceInEther, `${getCurrencySymbol(networkName)}\n`);
 
     } catch (error) {
         handleWalletError(error, "Check Balance");
@@ -397,6 +696,7 @@ export async function checkBalance() {
 export async function sendTransaction() {
     try {
         console.log("\n=== Send Transaction ===");
+        console.log(chalk.gray("Keys you use often can be saved with Import Wallet → Private Key(s) and sent from Manage Wallet."));
 
         const answers = await inquirer.prompt([
             {
@@ -453,24 +753,10 @@ export async function sendTransaction() {
                 type: "list",
                 name: "network",
                 message: "Select the network:",
-                choices: Object.keys(NETWORKS)
-            },
-            {
-                type: "input",
-                name: "gasPrice",
-                message: "Enter gas price in Gwei (leave empty for automatic):",
-                validate: (input: string) => {
-                    if (!input || input.trim() === "") {
-                        return true;
-                    }
-                    const gasPrice = parseFloat(input);
-                    if (isNaN(gasPrice) || gasPrice <= 0) {
-                        return "Please enter a valid gas price greater than 0. (or press Ctrl+C to exit)";
-                    }
-                    return true;
-                }
+                choices: getNetworkNames()
             }
         ]);
+        const feeSettings = await promptFeeSettings();
 
         // Clean and prepare private key
         const privateKey = answers.privateKey.trim().startsWith('0x') 
@@ -479,8 +765,10 @@ export async function sendTransaction() {
         
         // Create wallet and provider
         const wallet = new ethers.Wallet(privateKey);
-        const provider = new ethers.JsonRpcProvider(NETWORKS[answers.network]);
+        const provider = getProvider(answers.network);
         const connectedWallet = wallet.connect(provider);
+        const chain = await provider.verifyChain();
+        log.info(LogCategory.NETWORK, `Chain: ${describeChain(chain)}`);
 
         // Check balance before sending
         const balance = await provider.getBalance(wallet.address);
@@ -507,20 +795,14 @@ export async function sendTransaction() {
             from: wallet.address
         });
 
-        // Set gas price
-        let gasPrice;
-        if (answers.gasPrice && answers.gasPrice.trim() !== "") {
-            gasPrice = ethers.parseUnits(answers.gasPrice, "gwei");
-        } else {
-            const feeData = await provider.getFeeData();
-            gasPrice = feeData.gasPrice || ethers.parseUnits("20", "gwei"); // fallback
-        }
+        const fees = await resolveFees(provider, feeSettings);
+        log.info(LogCategory.TRANSACTION, describeFees(fees));
 
         const transaction = {
             to: toAddress,
             value: value,
             gasLimit: gasEstimate,
-            gasPrice: gasPrice
+            ...feeRequestFields(fees)
         };
 
         // Confirm transaction
@@ -528,7 +810,7 @@ export async function sendTransaction() {
             {
                 type: "confirm",
                 name: "confirm",
-                message: `Send ${answers.amount} ETH to ${toAddress}?`,
+                message: `Send ${answers.amount} ETH to ${toAddress} on ${chainLabel(chain)}?`,
                 default: false
             }
         ]);
@@ -550,6 +832,7 @@ export async function sendTransaction() {
         
         if (receipt) {
             log.transactionConfirmed(receipt.hash, receipt.blockNumber, receipt.gasUsed.toString());
+            logExplorerLink(answers.network, receipt.hash);
 
             // Save transaction to history
             if (currentWalletId) {
@@ -563,7 +846,8 @@ export async function sendTransaction() {
                     amount: answers.amount,
                     network: answers.network,
                     gasUsed: receipt.gasUsed.toString(),
-                    gasPrice: gasPrice.toString(),
+                    gasPrice: receipt.gasPrice.toString(),
+                    ...feeRecordFields(fees),
                     blockNumber: receipt.blockNumber,
                     timestamp: new Date().toISOString(),
                     status: 'confirmed'
@@ -614,9 +898,12 @@ export async function exportAccount() {
         console.log("-------------------------");
         console.log("Address:", currentAccount?.address || 'Unknown');
         console.log("Public Key:", currentAccount?.publicKey || 'Unknown');
-        console.log("Private Key:", privateKey);
-        console.log("Derivation Path:", currentAccount?.derivationPath || 'Unknown');
-        console.log("Mnemonic:", mnemonic);
+        console.log("Private Key:", privateKey ?? 'None (watch-only)');
+        if (storedWallet.xpub) {
+            console.log("Extended Public Key:", storedWallet.xpub);
+        }
+        console.log("Derivation Path:", currentAccount?.derivationPath || 'None (imported key)');
+        console.log("Mnemonic:", mnemonic ?? 'None (imported key)');
         console.log("-------------------------\n");
 
         const saveAnswer = await inquirer.prompt([
@@ -636,17 +923,17 @@ Generated: ${new Date().toISOString()}
 Current Account:
 Address: ${currentAccount?.address || 'Unknown'}
 Public Key: ${currentAccount?.publicKey || 'Unknown'}
-Private Key: ${privateKey}
-Derivation Path: ${currentAccount?.derivationPath || 'Unknown'}
+Private Key: ${privateKey ?? 'None (watch-only)'}
+${storedWallet.xpub ? `Extended Public Key: ${storedWallet.xpub}\n` : ''}Derivation Path: ${currentAccount?.derivationPath || 'None (imported key)'}
 
-Mnemonic: ${mnemonic}
+Mnemonic: ${mnemonic ?? 'None (imported key)'}
 Network: ${storedWallet.network}
 Total Accounts: ${storedWallet.accounts.length}
 
 WARNING: Keep this file secure and never share it with anyone!
 `;
 
-            require('fs').writeFileSync(filename, content);
+            fs.writeFileSync(filename, content, { mode: 0o600 });
             console.log(`✅ Wallet details saved to: ${filename}`);
         }
     } catch (error) {
@@ -684,12 +971,12 @@ export async function showAccounts() {
     ]);
 
     const count = parseInt(answer.count);
-    const mnemonicObj = ethers.Mnemonic.fromPhrase(currentMnemonic);
+    const mnemonicObj = mnemonicFromPhrase(currentMnemonic, currentPassphrase, currentWordlist);
 
     console.log(`\nShowing ${count} derived accounts:\n`);
 
     for (let i = 0; i < count; i++) {
-        const path = `m/44'/60'/0'/0/${i}`;
+        const path = derivationPath(currentPathTemplate, i);
         const wallet = HDNodeWallet.fromMnemonic(mnemonicObj, path);
 
         console.log(`Account ${i + 1} (${path}):`);
@@ -730,7 +1017,7 @@ export async function showInfo() {
         console.log("-------------------------");
         console.log("Address:", currentAccount?.address || 'Unknown');
         console.log("Public Key:", currentAccount?.publicKey || 'Unknown');
-        console.log("Derivation Path:", currentAccount?.derivationPath || 'Unknown');
+        console.log("Derivation Path:", currentAccount?.derivationPath || 'None (imported key)');
         if (currentAccount?.balance) {
             console.log("Balance:", currentAccount.balance, "ETH");
         }
@@ -746,7 +1033,7 @@ export async function showInfo() {
                 .slice(0, 5);
 
             recentTransactions.forEach((tx, index) => {
-                console.log(`${index + 1}. ${tx.type.toUpperCase()} - ${tx.amount} ETH`);
+                console.log(`${index + 1}. ${tx.type.toUpperCase()} - ${formatTransactionAmount(tx)}`);
                 console.log(`   To: ${tx.to}`);
                 console.log(`   Hash: ${tx.hash}`);
                 console.log(`   Status: ${tx.status}`);
@@ -832,10 +1119,13 @@ export async function showTransactionHistory() {
                 console.log(`   Hash: ${tx.hash}`);
                 console.log(`   From: ${tx.from}`);
                 console.log(`   To: ${tx.to}`);
-                console.log(`   Amount: ${tx.amount} ETH`);
+                console.log(`   Amount: ${formatTransactionAmount(tx)}`);
                 console.log(`   Network: ${tx.network}`);
                 console.log(`   Gas Used: ${tx.gasUsed}`);
                 console.log(`   Gas Price: ${tx.gasPrice} wei`);
+                if (tx.maxFeePerGas) {
+                    console.log(`   Max Fee: ${tx.maxFeePerGas} wei, Priority Fee: ${tx.maxPriorityFeePerGas} wei`);
+                }
                 console.log(`   Block: ${tx.blockNumber}`);
                 console.log(`   Status: ${tx.status}`);
                 console.log(`   Date: ${new Date(tx.timestamp).toLocaleString()}`);
@@ -918,8 +1208,11 @@ export async function manageWallets() {
         switch (actionAnswer.action) {
             case "load":
                 currentWalletId = selectedWallet.id;
-                const { mnemonic } = await secureStorage.decryptWallet(selectedWallet);
-                currentMnemonic = mnemonic;
+                const { mnemonic, passphrase } = await secureStorage.decryptWallet(selectedWallet);
+                currentMnemonic = mnemonic ?? "";
+                currentPassphrase = passphrase;
+                currentPathTemplate = selectedWallet.pathTemplate ?? DEFAULT_PATH_TEMPLATE;
+                currentWordlist = selectedWallet.wordlist ?? DEFAULT_WORDLIST;
                 await secureStorage.updateWalletLastUsed(selectedWallet.id);
                 console.log(`✅ Loaded wallet: ${selectedWallet.name}`);
                 break;
@@ -938,7 +1231,7 @@ export async function manageWallets() {
                 console.log("-------------------------");
                 console.log("Address:", currentAccount?.address || 'Unknown');
                 console.log("Public Key:", currentAccount?.publicKey || 'Unknown');
-                console.log("Derivation Path:", currentAccount?.derivationPath || 'Unknown');
+                console.log("Derivation Path:", currentAccount?.derivationPath || 'None (imported key)');
                 if (currentAccount?.balance) {
                     console.log("Balance:", currentAccount.balance, "ETH");
                 }
@@ -1024,220 +1317,1631 @@ export async function checkAccountBalance(wallet: any, accountIndex: number): Pr
     console.log(`Network: ${wallet.network}`);
     
     try {
-        const { NETWORKS } = await import("./networks.js");
-        const provider = new ethers.JsonRpcProvider(NETWORKS[wallet.network]);
+        const provider = getProvider(wallet.network);
         const balance = await provider.getBalance(account.address);
         const balanceInEther = ethers.formatEther(balance);
         
-        console.log(`Balance: ${balanceInEther} ETH`);
+        console.log(`Balance: ${balanceInEther} ${getCurrencySymbol(wallet.network)}`);
+
+        const tokenBalances = await getTokenBalances(provider, wallet.network, account.address);
+        if (tokenBalances.length > 0) {
+            console.log("\nToken Balances:");
+            tokenBalances.forEach(({ token, balance }) => {
+                console.log(`  ${token.symbol}: ${balance}`);
+            });
+        }
         console.log("=".repeat(40));
     } catch (error) {
         console.log("❌ Error checking balance:", error);
     }
 }
 
-export async function sendAccountTransaction(wallet: any, accountIndex: number): Promise<void> {
-    console.log(chalk.white("\n📤 Send Transaction from Account"));
-    console.log(chalk.white("=".repeat(40)));
-    
+export interface TransferOptions {
+    to: string;
+    amount: string; // in ETH, or token decimal units for token transfers
+    fees: FeeSettings;
+}
+
+export interface PreparedTransfer {
+    from: string;
+    to: string; // Recipient (not the token contract for token transfers)
+    amount: string;
+    network: string;
+    chain: ResolvedChain; // Chain the RPC reported when the transfer was prepared
+    balance: string; // sender balance in ETH, or in token units for token transfers
+    token?: TokenInfo;
+    nft?: { collection: NftCollection; tokenId: string };
+    fees: ResolvedFees;
+    transaction: ethers.TransactionRequest;
+}
+
+function accountContext(wallet: StoredWallet, accountIndex: number): { account: WalletAccount; provider: FailoverProvider } {
     const account = wallet.accounts[accountIndex];
-    console.log(chalk.white(`From Account: ${account.address}`));
-    console.log(chalk.white(`Network: ${wallet.network}`));
-    
+    if (!account) {
+        throw new Error(`Account ${accountIndex} not found`);
+    }
+    if (isWatchOnly(wallet)) {
+        throw new Error(`"${wallet.name}" is a watch-only wallet and can't send transactions`);
+    }
+
+    return { account, provider: getProvider(wallet.network) };
+}
+
+// Receipt of a mined transaction; ethers throws CALL_EXCEPTION on a revert, with the receipt attached
+async function waitForReceipt(txnResponse: ethers.TransactionResponse): Promise<ethers.TransactionReceipt | null> {
     try {
-        const { NETWORKS } = await import("./networks.js");
-        const provider = new ethers.JsonRpcProvider(NETWORKS[wallet.network]);
-        
-        // Get private key for this account
-        const { privateKey } = await secureStorage.decryptWallet(wallet);
-        const walletInstance = new ethers.Wallet(privateKey, provider);
-        
-        const answers = await inquirer.prompt([
-            {
-                type: "input",
-                name: "toAddress",
-                message: "Enter recipient address:",
-                validate: (input: string) => {
-                    try {
-                        ethers.getAddress(input.trim());
-                        return true;
-                    } catch {
-                        return "Invalid Ethereum address. Please enter a valid address. (or press Ctrl+C to exit)";
-                    }
-                }
-            },
-            {
-                type: "input",
-                name: "amount",
-                message: "Enter amount to send (in ETH):",
-                validate: (input: string) => {
-                    const amount = parseFloat(input);
-                    if (isNaN(amount) || amount <= 0) {
-                        return "Please enter a valid amount greater than 0. (or press Ctrl+C to exit)";
-                    }
-                    return true;
+        return await txnResponse.wait();
+    } catch (error) {
+        if (ethers.isError(error, 'CALL_EXCEPTION') && error.receipt) {
+            return error.receipt;
+        }
+        throw error;
+    }
+}
+
+// Throws unless the account holds enough ETH to pay the worst-case gas cost, plus any ETH being sent
+async function assertGasCovered(provider: ethers.Provider, from: string, gasLimit: bigint, fees: ResolvedFees, value: bigint = 0n): Promise<void> {
+    const ethBalance = await provider.getBalance(from);
+    const required = value + gasLimit * maxPricePerGas(fees);
+    if (ethBalance < required) {
+        const purpose = value > 0n ? "for the amount and gas" : "for gas";
+        throw new Error(`Insufficient balance: ${ethers.formatEther(required)} ETH needed ${purpose}, available ${ethers.formatEther(ethBalance)} ETH`);
+    }
+}
+
+function chainLabel(chain: ResolvedChain): string {
+    return `${chain.network} (chain ID ${chain.chainId})`;
+}
+
+function parseRecipient(to: string): string {
+    try {
+        return ethers.getAddress(to.trim());
+    } catch {
+        throw new Error(`Invalid address: ${to}`);
+    }
+}
+
+// Validate, balance-check and price an ETH transfer from a stored account without prompting
+export async function prepareAccountTransfer(
+    wallet: StoredWallet,
+    accountIndex: number,
+    options: TransferOptions
+): Promise<PreparedTransfer> {
+    const { account, provider } = accountContext(wallet, accountIndex);
+    const toAddress = parseRecipient(options.to);
+    const chain = await provider.verifyChain();
+
+    let value: bigint;
+    try {
+        value = ethers.parseEther(options.amount.trim());
+    } catch {
+        throw new Error(`Invalid amount: ${options.amount}`);
+    }
+    if (value <= 0n) {
+        throw new Error(`Invalid amount: ${options.amount}`);
+    }
+
+    // Check balance before estimating; nodes reject an estimate the balance can't cover with a bare "insufficient funds"
+    const balance = await provider.getBalance(account.address);
+    const balanceInEther = ethers.formatEther(balance);
+    if (balance < value) {
+        throw new Error(`Insufficient balance: required ${options.amount.trim()} ETH, available ${balanceInEther} ETH`);
+    }
+
+    // Get gas estimate
+    const gasEstimate = await provider.estimateGas({
+        to: toAddress,
+        value: value,
+        from: account.address
+    });
+
+    const fees = await resolveFees(provider, options.fees);
+    await assertGasCovered(provider, account.address, gasEstimate, fees, value);
+
+    return {
+        from: account.address,
+        to: toAddress,
+        amount: options.amount.trim(),
+        network: wallet.network,
+        chain,
+        balance: balanceInEther,
+        fees,
+        transaction: {
+            to: toAddress,
+            value: value,
+            gasLimit: gasEstimate,
+            ...feeRequestFields(fees)
+        }
+    };
+}
+
+// Validate, balance-check and price an ERC-20 transfer; gas is paid in ETH from the same account
+export async function prepareTokenTransfer(
+    wallet: StoredWallet,
+    accountIndex: number,
+    token: TokenInfo,
+    options: TransferOptions
+): Promise<PreparedTransfer> {
+    const { account, provider } = accountContext(wallet, accountIndex);
+    const toAddress = parseRecipient(options.to);
+    const chain = await provider.verifyChain();
+
+    let value: bigint;
+    try {
+        value = ethers.parseUnits(options.amount.trim(), token.decimals);
+    } catch {
+        throw new Error(`Invalid amount: ${options.amount}`);
+    }
+    if (value <= 0n) {
+        throw new Error(`Invalid amount: ${options.amount}`);
+    }
+
+    const tokenBalance = await getTokenBalance(provider, token, account.address);
+    if (tokenBalance.raw < value) {
+        throw new Error(`Insufficient balance: required ${options.amount} ${token.symbol}, available ${tokenBalance.balance} ${token.symbol}`);
+    }
+
+    const data = new ethers.Interface(ERC20_ABI).encodeFunctionData("transfer", [toAddress, value]);
+    const gasEstimate = await provider.estimateGas({
+        to: token.address,
+        data,
+        from: account.address
+    });
+
+    const fees = await resolveFees(provider, options.fees);
+    await assertGasCovered(provider, account.address, gasEstimate, fees);
+
+    return {
+        from: account.address,
+        to: toAddress,
+        amount: options.amount.trim(),
+        network: wallet.network,
+        chain,
+        balance: tokenBalance.balance,
+        token,
+        fees,
+        transaction: {
+            to: token.address,
+            value: 0n,
+            data,
+            gasLimit: gasEstimate,
+            ...feeRequestFields(fees)
+        }
+    };
+}
+
+// Validate and price a safeTransferFrom for an owned ERC-721 / ERC-1155 token
+export async function prepareNftTransfer(
+    wallet: StoredWallet,
+    accountIndex: number,
+    nft: OwnedNft,
+    options: TransferOptions
+): Promise<PreparedTransfer> {
+    const { account, provider } = accountContext(wallet, accountIndex);
+    const toAddress = parseRecipient(options.to);
+    const chain = await provider.verifyChain();
+
+    const amount = nft.collection.standard === 'erc721' ? "1" : options.amount.trim();
+    if (!/^\d+$/.test(amount) || BigInt(amount) <= 0n) {
+        throw new Error(`Invalid amount: ${options.amount}`);
+    }
+    if (BigInt(amount) > BigInt(nft.balance)) {
+        throw new Error(`Insufficient balance: required ${amount} of token #${nft.tokenId}, available ${nft.balance}`);
+    }
+
+    const data = encodeNftTransfer(nft.collection, account.address, toAddress, nft.tokenId, BigInt(amount));
+    const gasEstimate = await provider.estimateGas({
+        to: nft.collection.address,
+        data,
+        from: account.address
+    });
+
+    const fees = await resolveFees(provider, options.fees);
+    await assertGasCovered(provider, account.address, gasEstimate, fees);
+
+    return {
+        from: account.address,
+        to: toAddress,
+        amount,
+        network: wallet.network,
+        chain,
+        balance: nft.balance,
+        nft: { collection: nft.collection, tokenId: nft.tokenId },
+        fees,
+        transaction: {
+            to: nft.collection.address,
+            value: 0n,
+            data,
+            gasLimit: gasEstimate,
+            ...feeRequestFields(fees)
+        }
+    };
+}
+
+// Sign, broadcast and record a prepared transfer; resolves once the receipt is in
+export async function executeAccountTransfer(
+    wallet: StoredWallet,
+    accountIndex: number,
+    prepared: PreparedTransfer
+): Promise<TransactionRecord> {
+    const provider = getProvider(prepared.network);
+    // Re-check right before signing; the endpoint may have failed over since preparing
+    const chain = await provider.verifyChain();
+    if (chain.chainId !== prepared.chain.chainId) {
+        throw new ChainMismatchError(prepared.network, prepared.chain.chainId, [chain.chainId]);
+    }
+    const privateKey = await secureStorage.decryptAccountKey(wallet, accountIndex);
+    const walletInstance = new ethers.Wallet(privateKey, provider);
+
+    log.progress("Sending transaction...");
+    const txnResponse = await walletInstance.sendTransaction(prepared.transaction);
+    const unit = prepared.token?.symbol
+        ?? (prepared.nft && `${prepared.nft.collection.symbol ?? 'NFT'} #${prepared.nft.tokenId}`);
+    log.transactionSent(txnResponse.hash, prepared.to, prepared.amount, unit);
+    log.progress("Waiting for confirmation...");
+
+    // A reverted transaction is still mined and pays for gas, so it is recorded as failed rather than thrown
+    const receipt = await waitForReceipt(txnResponse);
+    if (!receipt) {
+        throw new Error(`Transaction ${txnResponse.hash} was not confirmed`);
+    }
+    if (receipt.status === 0) {
+        log.transactionStatus('failed', receipt.hash, `Reverted in block ${receipt.blockNumber}, gas used ${receipt.gasUsed}`);
+    } else {
+        log.transactionConfirmed(receipt.hash, receipt.blockNumber, receipt.gasUsed.toString());
+    }
+    logExplorerLink(prepared.network, receipt.hash);
+
+    const transactionRecord: TransactionRecord = {
+        id: crypto.randomUUID(),
+        walletId: wallet.id,
+        type: 'send',
+        hash: receipt.hash,
+        from: prepared.from,
+        to: prepared.to,
+        amount: prepared.amount,
+        ...(prepared.token && { token: prepared.token.address, tokenSymbol: prepared.token.symbol }),
+        ...(prepared.nft && {
+            token: prepared.nft.collection.address,
+            tokenSymbol: prepared.nft.collection.symbol ?? prepared.nft.collection.name ?? 'NFT',
+            tokenId: prepared.nft.tokenId,
+            tokenStandard: prepared.nft.collection.standard
+        }),
+        network: prepared.network,
+        gasUsed: receipt.gasUsed.toString(),
+        gasPrice: receipt.gasPrice.toString(),
+        ...feeRecordFields(prepared.fees),
+        blockNumber: receipt.blockNumber,
+        timestamp: new Date().toISOString(),
+        status: receipt.status === 0 ? 'failed' : 'confirmed'
+    };
+
+    try {
+        await secureStorage.saveTransaction(transactionRecord);
+        await secureStorage.updateWalletLastUsed(wallet.id);
+        log.info(LogCategory.STORAGE, "Transaction saved to history");
+    } catch (error) {
+        log.warn(LogCategory.STORAGE, "Failed to save transaction history", error);
+    }
+
+    return transactionRecord;
+}
+
+export async function sendAccountTransaction(wallet: any, accountIndex: number): Promise<void> {
+    console.log(chalk.white("\n📤 Send Transaction from Account"));
+    console.log(chalk.white("=".repeat(40)));
+    
+    const account = wallet.accounts[accountIndex];
+    console.log(chalk.white(`From Account: ${account.address}`));
+    console.log(chalk.white(`Network: ${wallet.network}`));
+    
+    try {
+        const answers = await inquirer.prompt([
+            {
+                type: "input",
+                name: "toAddress",
+                message: "Enter recipient address:",
+                validate: (input: string) => {
+                    try {
+                        ethers.getAddress(input.trim());
+                        return true;
+                    } catch {
+                        return "Invalid Ethereum address. Please enter a valid address. (or press Ctrl+C to exit)";
+                    }
+                }
+            },
+            {
+                type: "input",
+                name: "amount",
+                message: "Enter amount to send (in ETH):",
+                validate: (input: string) => {
+                    const amount = parseFloat(input);
+                    if (isNaN(amount) || amount <= 0) {
+                        return "Please enter a valid amount greater than 0. (or press Ctrl+C to exit)";
+                    }
+                    return true;
+                }
+            }
+        ]);
+        const feeSettings = await promptFeeSettings();
+
+        const prepared = await prepareAccountTransfer(wallet, accountIndex, {
+            to: answers.toAddress,
+            amount: answers.amount,
+            fees: feeSettings
+        });
+
+        console.log(chalk.white(`\nCurrent balance: ${prepared.balance} ETH`));
+        console.log(chalk.white(`Amount to send: ${prepared.amount} ETH`));
+        console.log(chalk.white(`Fees: ${describeFees(prepared.fees)}`));
+        console.log(chalk.white(`Chain: ${describeChain(prepared.chain)}`));
+
+        // Confirm transaction
+        const confirmAnswer = await inquirer.prompt([
+            {
+                type: "confirm",
+                name: "confirm",
+                message: `Send ${prepared.amount} ETH to ${prepared.to} on ${chainLabel(prepared.chain)}?`,
+                default: false
+            }
+        ]);
+
+        if (!confirmAnswer.confirm) {
+            console.log("❌ Transaction cancelled.");
+            return;
+        }
+
+        await executeAccountTransfer(wallet, accountIndex, prepared);
+
+    } catch (error) {
+        handleWalletError(error, "Send Transaction");
+        console.log("❌ Error sending transaction. Try again later.");
+    }
+}
+
+// Register an ERC-20 contract for the wallet's network after reading its metadata on-chain
+export async function addTokenToRegistry(wallet: any): Promise<TokenInfo | null> {
+    console.log("\n➕ Add Token");
+    console.log("=".repeat(40));
+    console.log(`Network: ${wallet.network}`);
+
+    try {
+        const answer = await inquirer.prompt([
+            {
+                type: "input",
+                name: "address",
+                message: "Enter the ERC-20 token contract address:",
+                validate: (input: string) => {
+                    try {
+                        ethers.getAddress(input.trim());
+                        return true;
+                    } catch {
+                        return "Invalid Ethereum address. Please enter a valid address. (or press Ctrl+C to exit)";
+                    }
+                }
+            }
+        ]);
+
+        const provider = getProvider(wallet.network);
+        const token = await fetchTokenInfo(provider, answer.address);
+
+        console.log(`\nSymbol: ${token.symbol}`);
+        if (token.name) {
+            console.log(`Name: ${token.name}`);
+        }
+        console.log(`Decimals: ${token.decimals}`);
+        console.log(`Address: ${token.address}`);
+
+        const confirmAnswer = await inquirer.prompt([
+            {
+                type: "confirm",
+                name: "confirm",
+                message: `Add ${token.symbol} to the ${wallet.network} token list?`,
+                default: true
+            }
+        ]);
+        if (!confirmAnswer.confirm) {
+            return null;
+        }
+
+        addToken(wallet.network, token);
+        log.success(LogCategory.WALLET, `Token ${token.symbol} added for ${wallet.network}`);
+        return token;
+    } catch (error) {
+        handleWalletError(error, "Add Token");
+        return null;
+    }
+}
+
+export async function sendTokenTransaction(wallet: any, accountIndex: number): Promise<void> {
+    console.log(chalk.white("\n🪙 Send Token (ERC-20)"));
+    console.log(chalk.white("=".repeat(40)));
+
+    const account = wallet.accounts[accountIndex];
+    console.log(chalk.white(`From Account: ${account.address}`));
+    console.log(chalk.white(`Network: ${wallet.network}`));
+
+    try {
+        const provider = getProvider(wallet.network);
+        const balances = await getTokenBalances(provider, wallet.network, account.address);
+
+        const tokenAnswer = await inquirer.prompt([
+            {
+                type: "list",
+                name: "token",
+                message: "Select the token to send:",
+                choices: [
+                    ...balances.map(({ token, balance }) => ({
+                        name: `${token.symbol} (balance: ${balance})`,
+                        value: token.address
+                    })),
+                    { name: "➕ Add a token by contract address", value: "add" }
+                ]
+            }
+        ]);
+
+        let token: TokenInfo | null | undefined;
+        if (tokenAnswer.token === "add") {
+            token = await addTokenToRegistry(wallet);
+        } else {
+            token = getTokens(wallet.network).find(t => t.address === tokenAnswer.token);
+        }
+        if (!token) {
+            return;
+        }
+
+        const answers = await inquirer.prompt([
+            {
+                type: "input",
+                name: "toAddress",
+                message: "Enter recipient address:",
+                validate: (input: string) => {
+                    try {
+                        ethers.getAddress(input.trim());
+                        return true;
+                    } catch {
+                        return "Invalid Ethereum address. Please enter a valid address. (or press Ctrl+C to exit)";
+                    }
+                }
+            },
+            {
+                type: "input",
+                name: "amount",
+                message: `Enter amount to send (in ${token.symbol}):`,
+                validate: (input: string) => {
+                    try {
+                        if (ethers.parseUnits(input.trim(), token!.decimals) > 0n) {
+                            return true;
+                        }
+                    } catch {
+                        // fall through
+                    }
+                    return `Please enter a valid amount greater than 0 (max ${token!.decimals} decimals). (or press Ctrl+C to exit)`;
+                }
+            }
+        ]);
+        const feeSettings = await promptFeeSettings();
+
+        const prepared = await prepareTokenTransfer(wallet, accountIndex, token, {
+            to: answers.toAddress,
+            amount: answers.amount,
+            fees: feeSettings
+        });
+
+        console.log(chalk.white(`\nToken balance: ${prepared.balance} ${token.symbol}`));
+        console.log(chalk.white(`Amount to send: ${prepared.amount} ${token.symbol}`));
+        console.log(chalk.white(`Fees: ${describeFees(prepared.fees)}`));
+        console.log(chalk.white(`Chain: ${describeChain(prepared.chain)}`));
+
+        const confirmAnswer = await inquirer.prompt([
+            {
+                type: "confirm",
+                name: "confirm",
+                message: `Send ${prepared.amount} ${token.symbol} to ${prepared.to} on ${chainLabel(prepared.chain)}?`,
+                default: false
+            }
+        ]);
+
+        if (!confirmAnswer.confirm) {
+            console.log("❌ Transaction cancelled.");
+            return;
+        }
+
+        await executeAccountTransfer(wallet, accountIndex, prepared);
+
+    } catch (error) {
+        handleWalletError(error, "Send Token");
+    }
+}
+
+// Register an NFT collection for the wallet's network; standard is detected through ERC-165
+export async function registerNftCollection(wallet: any): Promise<NftCollection | null> {
+    console.log("\n➕ Register NFT Collection");
+    console.log("=".repeat(40));
+    console.log(`Network: ${wallet.network}`);
+
+    try {
+        const answer = await inquirer.prompt([
+            {
+                type: "input",
+                name: "address",
+                message: "Enter the NFT collection contract address:",
+                validate: (input: string) => {
+                    try {
+                        ethers.getAddress(input.trim());
+                        return true;
+                    } catch {
+                        return "Invalid Ethereum address. Please enter a valid address. (or press Ctrl+C to exit)";
+                    }
+                }
+            }
+        ]);
+
+        const provider = getProvider(wallet.network);
+        const collection = await detectNftCollection(provider, answer.address);
+        const enumerable = await isEnumerable(provider, collection);
+
+        console.log(`\nStandard: ${collection.standard === 'erc721' ? 'ERC-721' : 'ERC-1155'}`);
+        if (collection.name) {
+            console.log(`Name: ${collection.name}`);
+        }
+        if (collection.symbol) {
+            console.log(`Symbol: ${collection.symbol}`);
+        }
+
+        // Without enumeration there is no way to discover holdings, so ask which IDs to track
+        if (!enumerable) {
+            console.log("This collection cannot list holdings on-chain. Enter the token IDs to track.");
+            const idsAnswer = await inquirer.prompt([
+                {
+                    type: "input",
+                    name: "tokenIds",
+                    message: "Token IDs (comma-separated):",
+                    validate: (input: string) => {
+                        const ids = input.split(',').map(id => id.trim()).filter(id => id.length > 0);
+                        if (ids.length === 0) {
+                            return "Please enter at least one token ID. (or press Ctrl+C to exit)";
+                        }
+                        for (const id of ids) {
+                            if (!/^\d+$/.test(id)) {
+                                return `Invalid token ID: ${id} (or press Ctrl+C to exit)`;
+                            }
+                        }
+                        return true;
+                    }
+                }
+            ]);
+            collection.tokenIds = idsAnswer.tokenIds.split(',').map((id: string) => id.trim()).filter((id: string) => id.length > 0);
+        }
+
+        saveNftCollection(wallet.network, collection);
+        log.success(LogCategory.WALLET, `Collection ${collection.name ?? collection.address} registered for ${wallet.network}`);
+        return collection;
+    } catch (error) {
+        handleWalletError(error, "Register NFT Collection");
+        return null;
+    }
+}
+
+async function transferNft(wallet: any, accountIndex: number, owned: OwnedNft[]): Promise<void> {
+    const nftAnswer = await inquirer.prompt([
+        {
+            type: "list",
+            name: "nft",
+            message: "Select the NFT to transfer:",
+            choices: owned.map((nft, index) => ({
+                name: `${nft.collection.name ?? nft.collection.address} #${nft.tokenId}` +
+                    (nft.collection.standard === 'erc1155' ? ` (balance: ${nft.balance})` : ''),
+                value: index
+            }))
+        }
+    ]);
+    const nft = owned[nftAnswer.nft]!;
+
+    const answers = await inquirer.prompt([
+        {
+            type: "input",
+            name: "toAddress",
+            message: "Enter recipient address:",
+            validate: (input: string) => {
+                try {
+                    ethers.getAddress(input.trim());
+                    return true;
+                } catch {
+                    return "Invalid Ethereum address. Please enter a valid address. (or press Ctrl+C to exit)";
+                }
+            }
+        },
+        {
+            type: "input",
+            name: "amount",
+            message: `Enter quantity to send (max ${nft.balance}):`,
+            default: "1",
+            when: () => nft.collection.standard === 'erc1155' && nft.balance !== "1",
+            validate: (input: string) => {
+                if (!/^\d+$/.test(input.trim()) || BigInt(input.trim()) <= 0n || BigInt(input.trim()) > BigInt(nft.balance)) {
+                    return `Please enter a whole number between 1 and ${nft.balance}. (or press Ctrl+C to exit)`;
+                }
+                return true;
+            }
+        }
+    ]);
+    const feeSettings = await promptFeeSettings();
+
+    const prepared = await prepareNftTransfer(wallet, accountIndex, nft, {
+        to: answers.toAddress,
+        amount: answers.amount ?? "1",
+        fees: feeSettings
+    });
+
+    const label = `${nft.collection.name ?? nft.collection.address} #${nft.tokenId}`;
+    console.log(chalk.white(`\nNFT: ${label}`));
+    console.log(chalk.white(`Quantity: ${prepared.amount}`));
+    console.log(chalk.white(`Fees: ${describeFees(prepared.fees)}`));
+    console.log(chalk.white(`Chain: ${describeChain(prepared.chain)}`));
+
+    const confirmAnswer = await inquirer.prompt([
+        {
+            type: "confirm",
+            name: "confirm",
+            message: `Transfer ${label} to ${prepared.to} on ${chainLabel(prepared.chain)}?`,
+            default: false
+        }
+    ]);
+
+    if (!confirmAnswer.confirm) {
+        console.log("❌ Transfer cancelled.");
+        return;
+    }
+
+    await executeAccountTransfer(wallet, accountIndex, prepared);
+}
+
+export async function manageAccountNfts(wallet: any, accountIndex: number): Promise<void> {
+    console.log("\n🖼️  NFTs");
+    console.log("=".repeat(50));
+
+    const account = wallet.accounts[accountIndex];
+    console.log(`Account: ${account.address}`);
+    console.log(`Network: ${wallet.network}`);
+
+    try {
+        const provider = getProvider(wallet.network);
+        const collections = getNftCollections(wallet.network);
+        let owned: OwnedNft[] = [];
+
+        if (collections.length === 0) {
+            console.log("\nNo NFT collections registered for this network.");
+        } else {
+            log.progress(`Checking ${collections.length} collection(s)...`);
+            owned = await getOwnedNfts(provider, wallet.network, account.address);
+
+            if (owned.length === 0) {
+                console.log("\nNo NFTs found in the registered collections.");
+            } else {
+                console.log(`\nFound ${owned.length} NFT(s):\n`);
+                for (const [index, nft] of owned.entries()) {
+                    const standard = nft.collection.standard === 'erc721' ? 'ERC-721' : 'ERC-1155';
+                    console.log(`${index + 1}. ${nft.collection.name ?? nft.collection.address} #${nft.tokenId} (${standard})`);
+                    if (nft.collection.standard === 'erc1155') {
+                        console.log(`   Balance: ${nft.balance}`);
+                    }
+                    const metadata = await fetchNftMetadata(provider, nft);
+                    if (metadata?.name) {
+                        console.log(`   Name: ${metadata.name}`);
+                    }
+                    if (metadata?.description) {
+                        console.log(`   Description: ${metadata.description}`);
+                    }
+                    if (metadata?.image) {
+                        console.log(`   Image: ${metadata.image}`);
+                    }
+                    if (metadata) {
+                        console.log(`   Metadata: ${metadata.uri}`);
+                    }
+                    console.log("   " + "-".repeat(40));
+                }
+            }
+        }
+
+        const choices = [
+            ...(owned.length > 0 && !isWatchOnly(wallet) ? [{ name: "📤 Transfer an NFT", value: "transfer" }] : []),
+            { name: "➕ Register NFT Collection", value: "register" },
+            { name: "🔙 Back", value: "back" }
+        ];
+        const answer = await inquirer.prompt([
+            {
+                type: "list",
+                name: "action",
+                message: "What would you like to do?",
+                choices
+            }
+        ]);
+
+        switch (answer.action) {
+            case "transfer":
+                await transferNft(wallet, accountIndex, owned);
+                break;
+            case "register":
+                await registerNftCollection(wallet);
+                break;
+        }
+    } catch (error) {
+        handleWalletError(error, "NFTs");
+    }
+}
+
+// Transactions recorded for a single account, newest first
+export async function loadAccountTransactions(wallet: StoredWallet, accountIndex: number): Promise<TransactionRecord[]> {
+    const account = wallet.accounts[accountIndex];
+    if (!account) {
+        throw new Error(`Account ${accountIndex} not found`);
+    }
+
+    const transactions = await secureStorage.loadTransactions(wallet.id);
+    return transactions
+        .filter(tx => tx.from === account.address || tx.to === account.address)
+        .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+}
+
+export async function getAccountTransactionHistory(wallet: any, accountIndex: number): Promise<void> {
+    console.log("\n📋 Account Transaction History");
+    console.log("=".repeat(40));
+    
+    const account = wallet.accounts[accountIndex];
+    console.log(`Account: ${account.address}`);
+    console.log(`Network: ${wallet.network}`);
+    
+    try {
+        const accountTransactions = await loadAccountTransactions(wallet, accountIndex);
+        
+        if (accountTransactions.length === 0) {
+            console.log("No transaction history found for this account.");
+            return;
+        }
+
+        console.log(`\nFound ${accountTransactions.length} transactions:\n`);
+
+        accountTransactions
+            .forEach((tx, index) => {
+                console.log(`${index + 1}. ${tx.type.toUpperCase()} Transaction`);
+                console.log(`   Hash: ${tx.hash}`);
+                console.log(`   From: ${tx.from}`);
+                console.log(`   To: ${tx.to}`);
+                console.log(`   Amount: ${formatTransactionAmount(tx)}`);
+                console.log(`   Network: ${tx.network}`);
+                console.log(`   Gas Used: ${tx.gasUsed}`);
+                console.log(`   Block: ${tx.blockNumber}`);
+                console.log(`   Status: ${tx.status}`);
+                console.log(`   Date: ${new Date(tx.timestamp).toLocaleString()}`);
+                console.log("   " + "-".repeat(40));
+            });
+
+    } catch (error) {
+        console.log("❌ Failed to load transaction history. Try again later.");
+    }
+}
+
+export async function syncAccountTransfers(wallet: any, accountIndex: number): Promise<void> {
+    console.log("\n📥 Sync Incoming Transfers");
+    console.log("=".repeat(40));
+
+    const account = wallet.accounts[accountIndex];
+    console.log(`Account: ${account.address}`);
+    console.log(`Network: ${wallet.network}`);
+    if (account.lastSyncedBlock !== undefined) {
+        console.log(`Last synced block: ${account.lastSyncedBlock}`);
+    } else {
+        console.log(`First sync: scanning the last ${INITIAL_LOOKBACK_BLOCKS} blocks; earlier transfers are not imported`);
+    }
+
+    try {
+        const result = await syncIncomingTransfers(wallet, [accountIndex]);
+
+        if (result.received.length === 0) {
+            console.log(chalk.gray("\nNo new incoming transfers found."));
+        } else {
+            console.log(chalk.green(`\n✅ Recorded ${result.received.length} incoming transfer(s):`));
+            result.received.forEach(tx => {
+                console.log(`  + ${formatTransactionAmount(tx)} from ${tx.from} (block ${tx.blockNumber})`);
+            });
+        }
+
+        describeSyncCoverage(result).forEach((note, i) => {
+            console.log(i === 0 ? chalk.gray(`\n${note}`) : chalk.yellow(`⚠️  ${note}`));
+        });
+
+        if (result.toBlock < result.latest) {
+            console.log(chalk.yellow(`\n⚠️  Synced up to block ${result.toBlock}; ${result.latest - result.toBlock} block(s) remain. Run sync again to continue.`));
+        } else {
+            console.log(chalk.gray(`\nUp to date at block ${result.toBlock}.`));
+        }
+        console.log("=".repeat(40));
+    } catch (error) {
+        handleWalletError(error, "Sync Incoming Transfers");
+    }
+}
+
+// Decrypt a Web3 Secret Storage (keystore V3) file; only its private key is kept
+export async function decryptKeystore(json: string, password: string): Promise<Wallet> {
+    if (!ethers.isKeystoreJson(json)) {
+        throw new Error("Not a keystore V3 JSON file");
+    }
+    try {
+        const decrypted = await Wallet.fromEncryptedJson(json, password);
+        return new Wallet(decrypted.privateKey);
+    } catch (error: any) {
+        if (error?.code === 'INVALID_ARGUMENT' && error?.argument === 'password') {
+            throw new Error("Incorrect keystore password");
+        }
+        throw error;
+    }
+}
+
+// Split pasted private keys (separated by spaces, commas or new lines); repeated keys are kept once
+export function parsePrivateKeys(input: string): Wallet[] {
+    const entries = input.trim().split(/[\s,]+/).filter(entry => entry.length > 0);
+    if (entries.length === 0) {
+        throw new Error("Please enter at least one private key");
+    }
+
+    const keys: Wallet[] = [];
+    entries.forEach((entry, position) => {
+        const hex = entry.startsWith('0x') ? entry : '0x' + entry;
+        if (!/^0x[0-9a-fA-F]{64}$/.test(hex)) {
+            throw new Error(`Invalid private key #${position + 1}: must be 64 hex characters`);
+        }
+        let key: Wallet;
+        try {
+            key = new Wallet(hex);
+        } catch {
+            throw new Error(`Invalid private key #${position + 1}`);
+        }
+        if (!keys.some(k => k.address === key.address)) {
+            keys.push(key);
+        }
+    });
+    return keys;
+}
+
+// Every address lives in one wallet only, so history and sync never double-count it
+async function assertAddressesNotSaved(addresses: string[]): Promise<void> {
+    const wallets = await secureStorage.loadWallets();
+    for (const address of addresses) {
+        const existing = wallets.find(w => w.accounts.some(account => account.address.toLowerCase() === address.toLowerCase()));
+        if (existing) {
+            throw new Error(`Address ${address} is already saved in wallet "${existing.name}"`);
+        }
+    }
+}
+
+// Save imported private keys (pasted or from a keystore) as a new key wallet
+export async function saveImportedKeys(keys: Wallet[], name: string, network: string): Promise<string> {
+    await assertAddressesNotSaved(keys.map(key => key.address));
+    return secureStorage.saveKeyWallet(keys, name, network);
+}
+
+export async function addImportedKeys(wallet: StoredWallet, keys: Wallet[]): Promise<StoredWallet> {
+    await assertAddressesNotSaved(keys.map(key => key.address));
+    return secureStorage.addKeysToWallet(wallet.id, keys);
+}
+
+async function promptPrivateKeys(): Promise<Wallet[]> {
+    const answer = await inquirer.prompt([
+        {
+            type: "password",
+            name: "keys",
+            message: "Enter private key(s), separated by spaces or commas:",
+            mask: "*",
+            validate: (input: string) => {
+                try {
+                    parsePrivateKeys(input);
+                    return true;
+                } catch (error: any) {
+                    return `${error.message}. (or press Ctrl+C to exit)`;
+                }
+            }
+        }
+    ]);
+
+    const keys = parsePrivateKeys(answer.keys);
+    console.log(`\n🔑 ${keys.length} key(s):`);
+    keys.forEach(key => console.log(`  ${key.address}`));
+    return keys;
+}
+
+export async function importPrivateKeys(): Promise<void> {
+    console.log("\n=== Import Private Key(s) ===");
+
+    try {
+        const keys = await promptPrivateKeys();
+        const keyWallets = (await secureStorage.loadWallets()).filter(isKeyWallet);
+
+        let target = "new";
+        if (keyWallets.length > 0) {
+            const targetAnswer = await inquirer.prompt([
+                {
+                    type: "list",
+                    name: "target",
+                    message: "Save the key(s) to:",
+                    choices: [
+                        { name: "🆕 A new wallet", value: "new" },
+                        ...keyWallets.map(w => ({ name: `${w.name} [${w.accounts.length} key(s)] - ${w.network}`, value: w.id }))
+                    ]
+                }
+            ]);
+            target = targetAnswer.target;
+        }
+
+        const existing = keyWallets.find(w => w.id === target);
+        if (existing) {
+            const updated = await addImportedKeys(existing, keys);
+            currentWalletId = updated.id;
+            currentMnemonic = "";
+            console.log(`✅ Added ${keys.length} key(s) to ${updated.name} (${updated.accounts.length} accounts)`);
+            return;
+        }
+
+        const details = await inquirer.prompt([
+            {
+                type: "input",
+                name: "name",
+                message: "Enter a name for this wallet (e.g., 'Deployer'):",
+                default: "Imported Keys",
+                validate: (input: string) => {
+                    if (!input || input.trim().length === 0) {
+                        return "Please enter a wallet name.";
+                    }
+                    return true;
+                }
+            },
+            {
+                type: "list",
+                name: "network",
+                message: "Select network:",
+                choices: getNetworkNames()
+            }
+        ]);
+
+        currentWalletId = await saveImportedKeys(keys, details.name.trim(), details.network);
+        currentMnemonic = "";
+        log.walletCreated(details.name.trim(), keys[0]!.address);
+        if (keys.length > 1) {
+            console.log(`📊 Contains ${keys.length} account(s)`);
+        }
+    } catch (error) {
+        handleWalletError(error, "Import Private Keys");
+    }
+}
+
+// "Add key" for a key wallet, the counterpart of creating a new account in an HD wallet
+export async function addPrivateKeysToWallet(wallet: StoredWallet): Promise<void> {
+    console.log("\n➕ Import Private Key");
+    console.log("=".repeat(40));
+    console.log(`Wallet: ${wallet.name}`);
+    console.log(`Current accounts: ${wallet.accounts.length}`);
+
+    try {
+        const keys = await promptPrivateKeys();
+        const updated = await addImportedKeys(wallet, keys);
+        wallet.accounts = updated.accounts;
+
+        console.log(`\n✅ Added ${keys.length} key(s) to ${wallet.name}`);
+        keys.forEach((key, offset) => console.log(`Account ${updated.accounts.length - keys.length + offset}: ${key.address}`));
+        console.log("=".repeat(40));
+    } catch (error) {
+        handleWalletError(error, "Import Private Key");
+    }
+}
+
+// Encrypt one account's key as keystore V3 JSON under its own password
+export async function encryptAccountKeystore(wallet: StoredWallet, accountIndex: number, password: string): Promise<string> {
+    const privateKey = await secureStorage.decryptAccountKey(wallet, accountIndex);
+    return new Wallet(privateKey).encrypt(password);
+}
+
+// geth's naming: UTC--<timestamp>--<address without 0x>
+export function keystoreFileName(address: string): string {
+    return `UTC--${new Date().toISOString().replace(/:/g, '-')}--${address.toLowerCase().replace(/^0x/, '')}`;
+}
+
+export async function importKeystore(): Promise<void> {
+    console.log("\n=== Import Keystore (JSON) ===");
+
+    try {
+        const answers = await inquirer.prompt([
+            {
+                type: "input",
+                name: "file",
+                message: "Path to keystore file:",
+                validate: (input: string) => {
+                    if (!input || !fs.existsSync(input.trim())) {
+                        return "File not found. (or press Ctrl+C to exit)";
+                    }
+                    return true;
+                }
+            },
+            {
+                type: "password",
+                name: "password",
+                message: "Keystore password:",
+                mask: "*"
+            }
+        ]);
+
+        console.log("🔓 Decrypting keystore...");
+        const key = await decryptKeystore(fs.readFileSync(answers.file.trim(), 'utf8'), answers.password);
+        console.log(`✅ Keystore unlocked: ${key.address}`);
+
+        const details = await inquirer.prompt([
+            {
+                type: "input",
+                name: "name",
+                message: "Enter a name for this wallet:",
+                default: `Keystore ${key.address.slice(0, 8)}`,
+                validate: (input: string) => {
+                    if (!input || input.trim().length === 0) {
+                        return "Please enter a wallet name.";
+                    }
+                    return true;
+                }
+            },
+            {
+                type: "list",
+                name: "network",
+                message: "Select network:",
+                choices: getNetworkNames()
+            }
+        ]);
+
+        currentWalletId = await saveImportedKeys([key], details.name.trim(), details.network);
+        currentMnemonic = "";
+        log.walletCreated(details.name.trim(), key.address);
+    } catch (error) {
+        handleWalletError(error, "Import Keystore");
+    }
+}
+
+export async function exportAccountKeystore(wallet: StoredWallet, accountIndex: number): Promise<void> {
+    try {
+        const account = wallet.accounts[accountIndex];
+        if (!account) {
+            console.log("❌ Account not found.");
+            return;
+        }
+
+        console.log(chalk.gray("The keystore gets its own password; your master password is not stored in it."));
+        const answers = await inquirer.prompt([
+            {
+                type: "input",
+                name: "file",
+                message: "Save keystore as:",
+                default: keystoreFileName(account.address),
+                validate: (input: string) => {
+                    if (!input || input.trim().length === 0) {
+                        return "File path cannot be empty.";
+                    }
+                    if (fs.existsSync(input.trim())) {
+                        return "File already exists. Choose a new path.";
+                    }
+                    return true;
+                }
+            },
+            {
+                type: "password",
+                name: "password",
+                message: "Keystore password:",
+                mask: "*",
+                validate: (input: string) => {
+                    if (!input || input.length < 8) {
+                        return "Keystore password must be at least 8 characters long.";
+                    }
+                    return true;
+                }
+            },
+            {
+                type: "password",
+                name: "confirmPassword",
+                message: "Confirm keystore password:",
+                mask: "*"
+            }
+        ]);
+
+        if (answers.password !== answers.confirmPassword) {
+            console.log("❌ Passwords do not match.");
+            return;
+        }
+
+        console.log("🔐 Encrypting keystore...");
+        const json = await encryptAccountKeystore(wallet, accountIndex, answers.password);
+        fs.writeFileSync(answers.file.trim(), json, { mode: 0o600, flag: 'wx' });
+        console.log(`✅ Keystore for ${account.address} saved to ${answers.file.trim()}`);
+    } catch (error) {
+        handleWalletError(error, "Export Keystore");
+    }
+}
+
+export interface WatchAccount {
+    address: string;
+    publicKey?: string;
+}
+
+// What a watch wallet is made from, or extended with
+export type WatchSource = { addresses: string[] } | { xpub: string; count: number };
+
+// Addresses separated by spaces, commas or new lines; repeated ones are kept once
+export function parseWatchAddresses(input: string): string[] {
+    const entries = input.trim().split(/[\s,]+/).filter(entry => entry.length > 0);
+    if (entries.length === 0) {
+        throw new Error("Please enter at least one address");
+    }
+
+    const addresses: string[] = [];
+    entries.forEach((entry, position) => {
+        let address: string;
+        try {
+            address = ethers.getAddress(entry);
+        } catch {
+            throw new Error(`Invalid address #${position + 1}: ${entry}`);
+        }
+        if (!addresses.includes(address)) {
+            addresses.push(address);
+        }
+    });
+    return addresses;
+}
+
+// Extended private keys are refused so a watch wallet never stores a secret
+export function parseXpub(xpub: string): ethers.HDNodeVoidWallet {
+    let node: HDNodeWallet | ethers.HDNodeVoidWallet;
+    try {
+        node = HDNodeWallet.fromExtendedKey(xpub.trim());
+    } catch {
+        throw new Error("Invalid extended public key");
+    }
+    if (!(node instanceof ethers.HDNodeVoidWallet)) {
+        throw new Error("That is an extended private key (xprv); enter the extended public key (xpub) instead");
+    }
+    return node;
+}
+
+// Receive addresses 0/<index> below an account-level xpub such as m/44'/60'/0'
+export function deriveXpubAccounts(xpub: string, start: number, count: number): WatchAccount[] {
+    const node = parseXpub(xpub);
+    return Array.from({ length: count }, (_, offset) => {
+        const child = node.derivePath(`0/${start + offset}`);
+        return { address: child.address, publicKey: child.publicKey };
+    });
+}
+
+export async function saveWatchWallet(source: WatchSource, name: string, network: string): Promise<string> {
+    if ('xpub' in source) {
+        const accounts = deriveXpubAccounts(source.xpub, 0, source.count);
+        await assertAddressesNotSaved(accounts.map(account => account.address));
+        return secureStorage.saveWatchWallet(accounts, name, network, source.xpub.trim());
+    }
+    await assertAddressesNotSaved(source.addresses);
+    return secureStorage.saveWatchWallet(source.addresses.map(address => ({ address })), name, network);
+}
+
+// xpub wallets watch the next children; address-list wallets take more addresses
+export async function watchMoreAccounts(wallet: StoredWallet, more: { addresses: string[] } | { count: number }): Promise<StoredWallet> {
+    let accounts: WatchAccount[];
+    if ('count' in more) {
+        if (!wallet.xpub) {
+            throw new Error(`"${wallet.name}" watches a list of addresses; enter the addresses to add`);
+        }
+        accounts = deriveXpubAccounts(wallet.xpub, wallet.accounts.length, more.count);
+    } else {
+        accounts = more.addresses.map(address => ({ address }));
+    }
+    await assertAddressesNotSaved(accounts.map(account => account.address));
+    return secureStorage.addWatchAccounts(wallet.id, accounts);
+}
+
+function validateWatchCount(input: string): true | string {
+    const count = parseInt(input);
+    if (isNaN(count) || count < 1 || count > 100) {
+        return "Please enter a number between 1 and 100.";
+    }
+    return true;
+}
+
+async function promptWatchAddresses(): Promise<string[]> {
+    const answer = await inquirer.prompt([
+        {
+            type: "input",
+            name: "addresses",
+            message: "Enter address(es) to watch, separated by spaces or commas:",
+            validate: (input: string) => {
+                try {
+                    parseWatchAddresses(input);
+                    return true;
+                } catch (error: any) {
+                    return `${error.message}. (or press Ctrl+C to exit)`;
+                }
+            }
+        }
+    ]);
+    return parseWatchAddresses(answer.addresses);
+}
+
+export async function importWatchWallet(): Promise<void> {
+    console.log("\n=== Watch-Only Wallet ===");
+    console.log(chalk.gray("Watch-only wallets show balances and history but hold no keys and can't send."));
+
+    try {
+        const sourceAnswer = await inquirer.prompt([
+            {
+                type: "list",
+                name: "source",
+                message: "Watch:",
+                choices: [
+                    { name: "📋 A list of addresses", value: "addresses" },
+                    { name: "🌳 An extended public key (xpub)", value: "xpub" }
+                ]
+            }
+        ]);
+
+        let source: WatchSource;
+        if (sourceAnswer.source === "xpub") {
+            const answers = await inquirer.prompt([
+                {
+                    type: "input",
+                    name: "xpub",
+                    message: "Enter the account-level extended public key (m/44'/60'/0'):",
+                    validate: (input: string) => {
+                        try {
+                            parseXpub(input);
+                            return true;
+                        } catch (error: any) {
+                            return `${error.message}. (or press Ctrl+C to exit)`;
+                        }
+                    }
+                },
+                {
+                    type: "input",
+                    name: "count",
+                    message: "How many receive addresses to watch:",
+                    default: "5",
+                    validate: validateWatchCount
                 }
-            },
+            ]);
+            source = { xpub: answers.xpub.trim(), count: parseInt(answers.count) };
+        } else {
+            source = { addresses: await promptWatchAddresses() };
+        }
+
+        const details = await inquirer.prompt([
             {
                 type: "input",
-                name: "gasPrice",
-                message: "Enter gas price in Gwei (leave empty for automatic):",
+                name: "name",
+                message: "Enter a name for this wallet (e.g., 'Treasury'):",
+                default: "Watch-Only",
                 validate: (input: string) => {
-                    if (!input || input.trim() === "") {
-                        return true;
-                    }
-                    const gasPrice = parseFloat(input);
-                    if (isNaN(gasPrice) || gasPrice <= 0) {
-                        return "Please enter a valid gas price greater than 0. (or press Ctrl+C to exit)";
+                    if (!input || input.trim().length === 0) {
+                        return "Please enter a wallet name.";
                     }
                     return true;
                 }
+            },
+            {
+                type: "list",
+                name: "network",
+                message: "Select network:",
+                choices: getNetworkNames()
             }
         ]);
 
-        // Check balance
-        const balance = await provider.getBalance(account.address);
-        const balanceInEther = parseFloat(ethers.formatEther(balance));
-        const amountToSend = parseFloat(answers.amount);
+        const walletId = await saveWatchWallet(source, details.name.trim(), details.network);
+        const saved = await secureStorage.getWallet(walletId);
+        console.log(`\n✅ Saved watch-only wallet: ${details.name.trim()}`);
+        saved?.accounts.forEach(account => console.log(`Account ${account.index}: ${account.address}`));
+    } catch (error) {
+        handleWalletError(error, "Watch-Only Wallet");
+    }
+}
 
-        console.log(chalk.white(`\nCurrent balance: ${balanceInEther} ETH`));
-        console.log(chalk.white(`Amount to send: ${amountToSend} ETH`));
+export async function addWatchAddresses(wallet: StoredWallet): Promise<void> {
+    console.log("\n➕ Watch More Addresses");
+    console.log("=".repeat(40));
+    console.log(`Wallet: ${wallet.name}`);
+    console.log(`Current accounts: ${wallet.accounts.length}`);
 
-        if (amountToSend >= balanceInEther) {
-            console.log(chalk.red("❌ Insufficient balance to send transaction."));
-            return;
+    try {
+        let more: { addresses: string[] } | { count: number };
+        if (wallet.xpub) {
+            const answer = await inquirer.prompt([
+                {
+                    type: "input",
+                    name: "count",
+                    message: "How many more receive addresses to watch:",
+                    default: "1",
+                    validate: validateWatchCount
+                }
+            ]);
+            more = { count: parseInt(answer.count) };
+        } else {
+            more = { addresses: await promptWatchAddresses() };
         }
 
-        // Prepare transaction
-        const toAddress = ethers.getAddress(answers.toAddress.trim());
-        const value = ethers.parseEther(answers.amount);
+        const previous = wallet.accounts.length;
+        const updated = await watchMoreAccounts(wallet, more);
+        wallet.accounts = updated.accounts;
 
-        // Get gas estimate
-        const gasEstimate = await provider.estimateGas({
-            to: toAddress,
-            value: value,
-            from: account.address
-        });
+        console.log(`\n✅ Now watching ${updated.accounts.length} address(es)`);
+        updated.accounts.slice(previous).forEach(account => console.log(`Account ${account.index}: ${account.address}`));
+        console.log("=".repeat(40));
+    } catch (error) {
+        handleWalletError(error, "Watch More Addresses");
+    }
+}
 
-        // Set gas price
-        let gasPrice;
-        if (answers.gasPrice && answers.gasPrice.trim() !== "") {
-            gasPrice = ethers.parseUnits(answers.gasPrice, "gwei");
-        } else {
-            const feeData = await provider.getFeeData();
-            gasPrice = feeData.gasPrice || ethers.parseUnits("20", "gwei");
+// Watch wallets hold nothing secret, so no password is asked
+export async function exportWatchWallet(wallet: StoredWallet): Promise<void> {
+    console.log("\n📤 Export Watch-Only Wallet");
+    console.log("=".repeat(60));
+    console.log(`Wallet Name: ${wallet.name}`);
+    console.log(`Network: ${wallet.network}`);
+    console.log("=".repeat(60));
+    if (wallet.xpub) {
+        console.log(`Extended Public Key: ${wallet.xpub}`);
+        console.log(chalk.gray("Account n is the 0/n child of this key."));
+    } else {
+        console.log("Addresses:");
+        wallet.accounts.forEach(account => console.log(`  ${account.address}`));
+    }
+    console.log("=".repeat(60));
+}
+
+// Account-level node of BIP44 Ethereum account 0; its 0/n children are the wallet's accounts
+export const ACCOUNT_XPUB_PATH = "m/44'/60'/0'";
+
+export async function walletXpub(wallet: StoredWallet): Promise<string> {
+    if (!isHdWallet(wallet)) {
+        throw new Error(`"${wallet.name}" has no mnemonic, so it has no extended public key`);
+    }
+    const { mnemonic, passphrase } = await secureStorage.decryptWallet(wallet);
+    return HDNodeWallet.fromMnemonic(mnemonicFromPhrase(mnemonic!, passphrase, wallet.wordlist), ACCOUNT_XPUB_PATH).neuter().extendedKey;
+}
+
+// Child index of address among the first `limit` receive addresses of xpub, or null
+export function findXpubAddress(xpub: string, address: string, limit: number): number | null {
+    const target = ethers.getAddress(address);
+    const node = parseXpub(xpub);
+    for (let index = 0; index < limit; index++) {
+        if (node.derivePath(`0/${index}`).address === target) {
+            return index;
         }
+    }
+    return null;
+}
 
-        const transaction = {
-            to: toAddress,
-            value: value,
-            gasLimit: gasEstimate,
-            gasPrice: gasPrice
-        };
+export async function exportWalletXpub(wallet: StoredWallet): Promise<void> {
+    try {
+        if (!isHdWallet(wallet)) {
+            console.log("❌ Only HD (mnemonic) wallets have an extended public key.");
+            return;
+        }
 
-        // Confirm transaction
-        const confirmAnswer = await inquirer.prompt([
+        const passwordAnswer = await inquirer.prompt([
             {
-                type: "confirm",
-                name: "confirm",
-                message: `Send ${answers.amount} ETH to ${toAddress}?`,
-                default: false
+                type: "password",
+                name: "password",
+                message: "Enter your master password to export the extended public key:",
+                mask: "*",
+                validate: (input: string) => {
+                    if (!input || input.trim().length === 0) {
+                        return "Password cannot be empty. Please enter your master password. (or press Ctrl+C to exit)";
+                    }
+                    return true;
+                }
             }
         ]);
 
-        if (!confirmAnswer.confirm) {
-            console.log("❌ Transaction cancelled.");
+        const isValid = await secureStorage.loadMasterPassword(passwordAnswer.password);
+        if (!isValid) {
+            console.log("❌ Invalid master password. Access denied.");
+            secureStorage.clearMasterKey();
             return;
         }
 
-        // Send transaction
-        console.log(chalk.cyan("\n📤 Sending transaction..."));
-        const txnResponse = await walletInstance.sendTransaction(transaction);
-        
-        console.log(chalk.green("✅ Transaction sent!"));
-        console.log(chalk.white(`Transaction hash: ${txnResponse.hash}`));
-        console.log(chalk.cyan("⏳ Waiting for confirmation..."));
-
-        // Wait for confirmation
-        const receipt = await txnResponse.wait();
-        
-        if (receipt) {
-            console.log(chalk.green("✅ Transaction confirmed!"));
-            console.log(chalk.white(`Block number: ${receipt.blockNumber}`));
-            console.log(chalk.white(`Gas used: ${receipt.gasUsed.toString()}`));
-            console.log(chalk.white(`Transaction hash: ${receipt.hash}`));
-
-            // Save transaction to history
-            const transactionRecord: TransactionRecord = {
-                id: crypto.randomUUID(),
-                walletId: wallet.id,
-                type: 'send',
-                hash: receipt.hash,
-                from: account.address,
-                to: toAddress,
-                amount: answers.amount,
-                network: wallet.network,
-                gasUsed: receipt.gasUsed.toString(),
-                gasPrice: gasPrice.toString(),
-                blockNumber: receipt.blockNumber,
-                timestamp: new Date().toISOString(),
-                status: 'confirmed'
-            };
+        const xpub = await walletXpub(wallet);
 
-            try {
-                await secureStorage.saveTransaction(transactionRecord);
-                await secureStorage.updateWalletLastUsed(wallet.id);
-                console.log("💾 Transaction saved to history");
-            } catch (error) {
-                console.log("⚠️  Warning: Failed to save transaction history:", error);
-            }
+        console.log("\n🌳 Extended Public Key");
+        console.log("=".repeat(60));
+        console.log(`Wallet Name: ${wallet.name}`);
+        console.log(`Path: ${ACCOUNT_XPUB_PATH}`);
+        console.log(`xpub: ${xpub}`);
+        console.log("=".repeat(60));
+        if (wallet.pathTemplate && wallet.pathTemplate !== DEFAULT_PATH_TEMPLATE) {
+            console.log(chalk.yellow(`This wallet derives accounts with ${describePathTemplate(wallet.pathTemplate)}; the xpub only covers ${ACCOUNT_XPUB_PATH}/0/n.`));
         }
 
+        // Show the xpub reproduces the saved accounts before it is handed out
+        console.log("\nReceive addresses derived from the xpub alone:");
+        const derived = deriveXpubAccounts(xpub, 0, Math.max(wallet.accounts.length, 5));
+        derived.forEach(({ address }, index) => {
+            const saved = wallet.accounts.find(account => account.derivationPath === `${ACCOUNT_XPUB_PATH}/0/${index}`);
+            const check = !saved ? '' : saved.address === address ? chalk.green(` ✓ Account ${saved.index}`) : chalk.red(` ✗ Account ${saved.index} is ${saved.address}`);
+            console.log(`  0/${index}: ${address}${check}`);
+        });
+
+        console.log(chalk.gray("\nThe xpub reveals every address and balance of this wallet, but can't spend. Share it only with trusted watchers."));
     } catch (error) {
-        handleWalletError(error, "Send Transaction");
-        console.log("❌ Error sending transaction. Try again later.");
+        handleWalletError(error, "Export Extended Public Key");
     }
 }
 
-export async function getAccountTransactionHistory(wallet: any, accountIndex: number): Promise<void> {
-    console.log("\n📋 Account Transaction History");
-    console.log("=".repeat(40));
-    
-    const account = wallet.accounts[accountIndex];
-    console.log(`Account: ${account.address}`);
-    console.log(`Network: ${wallet.network}`);
-    
+// Split the mnemonic so no single holder can restore the wallet; any `threshold` shares can
+export async function exportMnemonicShares(wallet: StoredWallet): Promise<void> {
     try {
-        const transactions = await secureStorage.loadTransactions(wallet.id);
-        const accountTransactions = transactions.filter(tx => 
-            tx.from === account.address || tx.to === account.address
-        );
-        
-        if (accountTransactions.length === 0) {
-            console.log("No transaction history found for this account.");
+        if (!isHdWallet(wallet)) {
+            console.log("❌ Only HD (mnemonic) wallets have a mnemonic to split.");
             return;
         }
 
-        console.log(`\nFound ${accountTransactions.length} transactions:\n`);
+        const passwordAnswer = await inquirer.prompt([
+            {
+                type: "password",
+                name: "password",
+                message: "Enter your master password to split the mnemonic:",
+                mask: "*",
+                validate: (input: string) => {
+                    if (!input || input.trim().length === 0) {
+                        return "Password cannot be empty. Please enter your master password. (or press Ctrl+C to exit)";
+                    }
+                    return true;
+                }
+            }
+        ]);
 
-        accountTransactions
-            .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
-            .forEach((tx, index) => {
-                console.log(`${index + 1}. ${tx.type.toUpperCase()} Transaction`);
-                console.log(`   Hash: ${tx.hash}`);
-                console.log(`   From: ${tx.from}`);
-                console.log(`   To: ${tx.to}`);
-                console.log(`   Amount: ${tx.amount} ETH`);
-                console.log(`   Network: ${tx.network}`);
-                console.log(`   Gas Used: ${tx.gasUsed}`);
-                console.log(`   Block: ${tx.blockNumber}`);
-                console.log(`   Status: ${tx.status}`);
-                console.log(`   Date: ${new Date(tx.timestamp).toLocaleString()}`);
-                console.log("   " + "-".repeat(40));
+        const isValid = await secureStorage.loadMasterPassword(passwordAnswer.password);
+        if (!isValid) {
+            console.log("❌ Invalid master password. Access denied.");
+            secureStorage.clearMasterKey();
+            return;
+        }
+
+        const { mnemonic, passphrase } = await secureStorage.decryptWallet(wallet);
+        if (!mnemonic) {
+            console.log("❌ This wallet has no stored mnemonic.");
+            return;
+        }
+
+        const countAnswer = await inquirer.prompt([
+            {
+                type: "input",
+                name: "shares",
+                message: `Total number of shares (N, 2-${MAX_SHARES}):`,
+                default: "3",
+                validate: (input: string) => {
+                    const count = Number(input.trim());
+                    return Number.isInteger(count) && count >= 2 && count <= MAX_SHARES ? true : `Please enter a whole number between 2 and ${MAX_SHARES}.`;
+                }
+            }
+        ]);
+        const shareCount = Number(countAnswer.shares.trim());
+
+        const thresholdAnswer = await inquirer.prompt([
+            {
+                type: "input",
+                name: "threshold",
+                message: `Shares needed to recover (M, 2-${shareCount}):`,
+                default: String(Math.min(2, shareCount)),
+                validate: (input: string) => {
+                    const count = Number(input.trim());
+                    return Number.isInteger(count) && count >= 2 && count <= shareCount ? true : `Please enter a whole number between 2 and ${shareCount}.`;
+                }
+            }
+        ]);
+        const threshold = Number(thresholdAnswer.threshold.trim());
+
+        const outputAnswer = await inquirer.prompt([
+            {
+                type: "list",
+                name: "output",
+                message: "How should the shares be handed out?",
+                choices: [
+                    { name: "Show each share on its own screen", value: "print" },
+                    { name: "Write each share to its own file", value: "files" }
+                ]
+            }
+        ]);
+
+        const shares = splitMnemonic({ phrase: mnemonic, locale: wallet.wordlist ?? DEFAULT_WORDLIST }, shareCount, threshold);
+        const setId = parseShare(shares[0]!).setId;
+
+        if (outputAnswer.output === "files") {
+            const dirAnswer = await inquirer.prompt([
+                {
+                    type: "input",
+                    name: "dir",
+                    message: "Directory for the share files:",
+                    default: ".",
+                    validate: (input: string) => fs.existsSync(input.trim()) && fs.statSync(input.trim()).isDirectory() ? true : "Directory not found. (or press Ctrl+C to exit)"
+                }
+            ]);
+            const files = shares.map((_, i) => path.join(dirAnswer.dir.trim(), `share-${setId}-${i + 1}-of-${shareCount}.txt`));
+            const existing = files.find(file => fs.existsSync(file));
+            if (existing) {
+                console.log(`❌ ${existing} already exists; nothing was written.`);
+                return;
+            }
+            shares.forEach((share, i) => {
+                const text = `EtherVault3 mnemonic share ${i + 1} of ${shareCount} (any ${threshold} recover the wallet, set ${setId})\n${share}\n`;
+                fs.writeFileSync(files[i]!, text, { mode: 0o600, flag: 'wx' });
+                console.log(`✅ Share ${i + 1} written to ${files[i]}`);
             });
+            console.log(chalk.yellow("Move each file to its holder and delete it from this machine."));
+        } else {
+            for (let i = 0; i < shares.length; i++) {
+                console.clear();
+                console.log(`\n🧩 Share ${i + 1} of ${shareCount} (any ${threshold} recover the wallet, set ${setId})`);
+                console.log("=".repeat(60));
+                console.log(shares[i]);
+                console.log("=".repeat(60));
+                await inquirer.prompt([
+                    {
+                        type: "input",
+                        name: "next",
+                        message: `Press Enter once share ${i + 1} has been written down by its holder`
+                    }
+                ]);
+            }
+            console.clear();
+        }
 
+        console.log(`✅ Split "${wallet.name}" into ${shareCount} shares; any ${threshold} of them rebuild the mnemonic.`);
+        console.log(chalk.gray("Fewer shares reveal nothing about the mnemonic. Restore via Import Wallet → Shamir Shares."));
+        if (passphrase) {
+            log.securityWarning("The BIP-39 passphrase is NOT part of the shares. Keep it separately, or the wallet can't be restored.");
+        }
     } catch (error) {
-        console.log("❌ Failed to load transaction history. Try again later.");
+        handleWalletError(error, "Split Mnemonic");
+    }
+}
+
+// Collect shares until the threshold in the first one is met, then run the usual mnemonic import
+export async function importShamirShares() {
+    try {
+        console.log("\n=== Import Wallet from Shamir Shares ===");
+
+        const shares: string[] = [];
+        let threshold = 0;
+        do {
+            const first = shares[0] ? parseShare(shares[0]) : null;
+            const answer = await inquirer.prompt([
+                {
+                    type: "input",
+                    name: "share",
+                    message: first ? `Share ${shares.length + 1} of ${threshold} (set ${first.setId}):` : "First share:",
+                    validate: (input: string) => {
+                        try {
+                            const share = parseShare(input);
+                            if (first && share.setId !== first.setId) {
+                                return `This share is from set ${share.setId}, not ${first.setId}. (or press Ctrl+C to exit)`;
+                            }
+                            if (shares.some(s => parseShare(s).index === share.index)) {
+                                return `Share #${share.index} was already entered. (or press Ctrl+C to exit)`;
+                            }
+                            return true;
+                        } catch (error: any) {
+                            return `${error.message}. (or press Ctrl+C to exit)`;
+                        }
+                    }
+                }
+            ]);
+            shares.push(answer.share);
+            threshold = parseShare(shares[0]!).threshold;
+        } while (shares.length < threshold);
+
+        const recovered = combineShares(shares);
+        console.log(`✅ Mnemonic rebuilt from ${shares.length} shares.`);
+        return await importWallet(recovered);
+    } catch (error) {
+        handleWalletError(error, "Import Shamir Shares");
+        return null;
     }
 }
 
@@ -1267,11 +2971,10 @@ export async function getAccountSecrets(wallet: any, accountIndex: number): Prom
         }
 
         // Verify the password works by attempting to decrypt the wallet
-        let mnemonic: string, privateKey: string;
+        let mnemonic: string | null, passphrase: string, privateKey: string;
         try {
-            const result = await secureStorage.decryptWallet(wallet);
-            mnemonic = result.mnemonic;
-            privateKey = result.privateKey;
+            ({ mnemonic, passphrase } = await secureStorage.decryptWallet(wallet));
+            privateKey = await secureStorage.decryptAccountKey(wallet, accountIndex);
         } catch (error) {
             console.log("❌ Invalid master password. Access denied.");
             secureStorage.clearMasterKey();
@@ -1288,8 +2991,17 @@ export async function getAccountSecrets(wallet: any, accountIndex: number): Prom
         console.log(`Address: ${account.address}`);
         console.log(`Public Key: ${account.publicKey}`);
         console.log(`Private Key: ${privateKey}`);
-        console.log(`Derivation Path: ${account.derivationPath}`);
-        console.log(`Mnemonic: ${mnemonic}`);
+        if (account.derivationPath) {
+            console.log(`Derivation Path: ${account.derivationPath}`);
+        }
+        if (mnemonic) {
+            console.log(`Mnemonic: ${mnemonic}`);
+            if (passphrase) {
+                console.log(`BIP-39 Passphrase: ${passphrase}`);
+            }
+        } else {
+            console.log("Source: Imported private key (no mnemonic)");
+        }
         if (account.balance) {
             console.log(`Balance: ${account.balance} ETH`);
         }
@@ -1310,18 +3022,42 @@ export async function airdropTokens(wallet: any, accountIndex: number): Promise<
     console.log(`Network: ${wallet.network}`);
     
     try {
-        const { NETWORKS } = await import("./networks.js");
-        const provider = new ethers.JsonRpcProvider(NETWORKS[wallet.network]);
+        const provider = getProvider(wallet.network);
+        const chain = await provider.verifyChain();
         
         // Get private key for this account
-        const { privateKey } = await secureStorage.decryptWallet(wallet);
+        const privateKey = await secureStorage.decryptAccountKey(wallet, accountIndex);
         const walletInstance = new ethers.Wallet(privateKey, provider);
         
         // Get current balance
         const balance = await provider.getBalance(account.address);
-        const balanceInEther = parseFloat(ethers.formatEther(balance));
         
-        console.log(`\nCurrent Balance: ${balanceInEther} ETH`);
+        console.log(`\nCurrent Balance: ${ethers.formatEther(balance)} ETH`);
+
+        // Pick the asset: native ETH or any registered token this account holds
+        const holdings = (await getTokenBalances(provider, wallet.network, account.address))
+            .filter(holding => holding.raw > 0n);
+        let holding: TokenBalance | undefined;
+        if (holdings.length > 0) {
+            const assetAnswer = await inquirer.prompt([
+                {
+                    type: "list",
+                    name: "asset",
+                    message: "Select the asset to airdrop:",
+                    choices: [
+                        { name: `ETH (balance: ${ethers.formatEther(balance)})`, value: "eth" },
+                        ...holdings.map(h => ({
+                            name: `${h.token.symbol} (balance: ${h.balance})`,
+                            value: h.token.address
+                        }))
+                    ]
+                }
+            ]);
+            holding = holdings.find(h => h.token.address === assetAnswer.asset);
+        }
+        const token = holding?.token;
+        const unit = token?.symbol ?? 'ETH';
+        const decimals = token?.decimals ?? 18;
         
         // Get airdrop parameters
         const answers = await inquirer.prompt([
@@ -1357,79 +3093,76 @@ export async function airdropTokens(wallet: any, accountIndex: number): Promise<
             {
                 type: "input",
                 name: "amount",
-                message: "Enter amount to send per recipient (in ETH):",
+                message: `Enter amount to send per recipient (in ${unit}):`,
                 validate: (input: string) => {
-                    const amount = parseFloat(input);
-                    if (isNaN(amount) || amount <= 0) {
-                        return "Please enter a valid amount greater than 0. (or press Ctrl+C to exit)";
-                    }
-                    return true;
-                }
-            },
-            {
-                type: "input",
-                name: "gasPrice",
-                message: "Enter gas price in Gwei (leave empty for automatic):",
-                validate: (input: string) => {
-                    if (!input || input.trim() === "") {
-                        return true;
-                    }
-                    const gasPrice = parseFloat(input);
-                    if (isNaN(gasPrice) || gasPrice <= 0) {
-                        return "Please enter a valid gas price greater than 0.";
+                    try {
+                        if (ethers.parseUnits(input.trim(), decimals) > 0n) {
+                            return true;
+                        }
+                    } catch {
+                        // fall through
                     }
-                    return true;
+                    return "Please enter a valid amount greater than 0. (or press Ctrl+C to exit)";
                 }
             }
         ]);
+        const feeSettings = await promptFeeSettings();
 
-        const recipients = answers.recipients.split(',').map((addr: string) => addr.trim());
-        const amountPerRecipient = parseFloat(answers.amount);
-        const totalAmount = amountPerRecipient * recipients.length;
+        const recipients: string[] = answers.recipients.split(',').map((addr: string) => ethers.getAddress(addr.trim()));
+        const amountPerRecipient = answers.amount.trim();
+        const valuePerRecipient = ethers.parseUnits(amountPerRecipient, decimals);
+        const totalValue = valuePerRecipient * BigInt(recipients.length);
         
-        // Get gas price
-        let gasPrice;
-        if (answers.gasPrice && answers.gasPrice.trim() !== "") {
-            gasPrice = ethers.parseUnits(answers.gasPrice, "gwei");
-        } else {
-            const feeData = await provider.getFeeData();
-            gasPrice = feeData.gasPrice || ethers.parseUnits("20", "gwei");
-        }
-        
-        // Estimate gas for a single transaction
-        const testTx = {
-            to: recipients[0],
-            value: ethers.parseEther(amountPerRecipient.toString()),
-            gasLimit: 21000 // Standard transfer
-        };
+        // Resolve fees once for the whole batch
+        const fees = await resolveFees(provider, feeSettings);
         
-        let gasEstimate;
-        try {
-            gasEstimate = await provider.estimateGas(testTx);
-        } catch (error) {
-            gasEstimate = BigInt(21000); // Fallback to standard gas limit
+        // Estimate the real gas for each transfer (token transfers cost more for first-time holders)
+        const erc20 = new ethers.Interface(ERC20_ABI);
+        log.progress("Estimating gas for each recipient...");
+        const planned: Array<{ recipient: string; request: ethers.TransactionRequest; gasLimit: bigint }> = [];
+        for (const recipient of recipients) {
+            const request: ethers.TransactionRequest = token
+                ? { to: token.address, value: 0n, data: erc20.encodeFunctionData("transfer", [recipient, valuePerRecipient]) }
+                : { to: recipient, value: valuePerRecipient };
+            let gasLimit: bigint;
+            try {
+                gasLimit = await provider.estimateGas({ ...request, from: account.address });
+            } catch (error: any) {
+                throw new Error(`Gas estimation failed for ${recipient}: ${error?.shortMessage || error?.message || error}`);
+            }
+            planned.push({ recipient, request, gasLimit });
         }
         
-        const gasCostPerTx = gasEstimate * gasPrice;
-        const totalGasCost = gasCostPerTx * BigInt(recipients.length);
-        const totalCost = ethers.parseEther(totalAmount.toString()) + totalGasCost;
-        const totalCostInEther = parseFloat(ethers.formatEther(totalCost));
+        const totalGas = planned.reduce((sum, p) => sum + p.gasLimit, 0n);
+        const totalGasCost = totalGas * maxPricePerGas(fees);
+        const ethRequired = totalGasCost + (token ? 0n : totalValue);
         
         console.log("\n📊 Airdrop Summary:");
         console.log("=".repeat(50));
+        console.log(`Chain: ${describeChain(chain)}`);
+        console.log(`Asset: ${token ? `${token.symbol} (${token.address})` : 'ETH'}`);
         console.log(`Recipients: ${recipients.length}`);
-        console.log(`Amount per recipient: ${amountPerRecipient} ETH`);
-        console.log(`Total amount: ${totalAmount} ETH`);
-        console.log(`Gas price: ${ethers.formatUnits(gasPrice, "gwei")} Gwei`);
-        console.log(`Gas per transaction: ${gasEstimate.toString()}`);
-        console.log(`Total gas cost: ${ethers.formatEther(totalGasCost)} ETH`);
-        console.log(`Total cost: ${totalCostInEther} ETH`);
-        console.log(`Current balance: ${balanceInEther} ETH`);
-        console.log(`Remaining after airdrop: ${(balanceInEther - totalCostInEther).toFixed(6)} ETH`);
+        console.log(`Amount per recipient: ${amountPerRecipient} ${unit}`);
+        console.log(`Total amount: ${ethers.formatUnits(totalValue, decimals)} ${unit}`);
+        console.log(`Fees: ${describeFees(fees)}`);
+        console.log(`Total gas (estimated): ${totalGas.toString()}`);
+        console.log(`Max total gas cost: ${ethers.formatEther(totalGasCost)} ETH`);
+        if (holding) {
+            console.log(`Current ${unit} balance: ${holding.balance} ${unit}`);
+            console.log(`Remaining ${unit} after airdrop: ${ethers.formatUnits(holding.raw - totalValue, decimals)} ${unit}`);
+        } else {
+            console.log(`Total cost: ${ethers.formatEther(ethRequired)} ETH`);
+        }
+        console.log(`Current ETH balance: ${ethers.formatEther(balance)} ETH`);
+        console.log(`Remaining ETH after airdrop (worst case): ${ethers.formatEther(balance - ethRequired)} ETH`);
         console.log("=".repeat(50));
         
-        if (totalCostInEther > balanceInEther) {
-            console.log("❌ Insufficient balance for airdrop.");
+        if (holding && holding.raw < totalValue) {
+            console.log(`❌ Insufficient ${unit} balance for airdrop.`);
+            return;
+        }
+        if (balance < ethRequired) {
+            console.log(token ? "❌ Insufficient ETH to pay for gas." : "❌ Insufficient balance for airdrop.");
             return;
         }
         
@@ -1438,7 +3171,7 @@ export async function airdropTokens(wallet: any, accountIndex: number): Promise<
             {
                 type: "confirm",
                 name: "confirm",
-                message: `Proceed with airdrop to ${recipients.length} recipients?`,
+                message: `Proceed with airdrop of ${unit} to ${recipients.length} recipients on ${chainLabel(chain)}?`,
                 default: false
             }
         ]);
@@ -1448,6 +3181,9 @@ export async function airdropTokens(wallet: any, accountIndex: number): Promise<
             return;
         }
         
+        // Re-check right before signing; the endpoint may have failed over since the summary
+        await provider.verifyChain();
+
         // Execute airdrop
         log.info(LogCategory.TRANSACTION, "Starting airdrop process...");
         const results = {
@@ -1456,35 +3192,40 @@ export async function airdropTokens(wallet: any, accountIndex: number): Promise<
             transactions: [] as any[]
         };
         
-        for (let i = 0; i < recipients.length; i++) {
-            const recipient = recipients[i];
-            log.airdropProgress(i + 1, recipients.length, recipient);
+        for (let i = 0; i < planned.length; i++) {
+            const { recipient, request, gasLimit } = planned[i]!;
+            log.airdropProgress(i + 1, planned.length, recipient);
             
             try {
                 const transaction = {
-                    to: recipient,
-                    value: ethers.parseEther(amountPerRecipient.toString()),
-                    gasLimit: gasEstimate,
-                    gasPrice: gasPrice
+                    ...request,
+                    gasLimit,
+                    ...feeRequestFields(fees)
                 };
                 
                 const txnResponse = await walletInstance.sendTransaction(transaction);
-                log.transactionSent(txnResponse.hash, recipient, amountPerRecipient.toString());
+                log.transactionSent(txnResponse.hash, recipient, amountPerRecipient, unit);
                 
-                // Wait for confirmation
-                const receipt = await txnResponse.wait();
+                // Wait for confirmation; a reverted transfer is mined too and still costs gas
+                const receipt = await waitForReceipt(txnResponse);
                 
                 if (receipt) {
-                    results.successful++;
+                    const status = receipt.status === 0 ? 'failed' : 'confirmed';
                     results.transactions.push({
                         hash: receipt.hash,
                         to: recipient,
                         amount: amountPerRecipient,
                         blockNumber: receipt.blockNumber,
                         gasUsed: receipt.gasUsed.toString(),
-                        status: 'confirmed'
+                        status
                     });
-                    log.transactionConfirmed(receipt.hash, receipt.blockNumber, receipt.gasUsed.toString());
+                    if (status === 'confirmed') {
+                        results.successful++;
+                        log.transactionConfirmed(receipt.hash, receipt.blockNumber, receipt.gasUsed.toString());
+                    } else {
+                        results.failed++;
+                        log.transactionStatus('failed', receipt.hash, `Transfer to ${recipient} reverted in block ${receipt.blockNumber}, gas used ${receipt.gasUsed}`);
+                    }
                     
                     // Save transaction record
                     const transactionRecord: TransactionRecord = {
@@ -1494,13 +3235,15 @@ export async function airdropTokens(wallet: any, accountIndex: number): Promise<
                         hash: receipt.hash,
                         from: account.address,
                         to: recipient,
-                        amount: amountPerRecipient.toString(),
+                        amount: amountPerRecipient,
+                        ...(token && { token: token.address, tokenSymbol: token.symbol }),
                         network: wallet.network,
                         gasUsed: receipt.gasUsed.toString(),
-                        gasPrice: gasPrice.toString(),
+                        gasPrice: receipt.gasPrice.toString(),
+                        ...feeRecordFields(fees),
                         blockNumber: receipt.blockNumber,
                         timestamp: new Date().toISOString(),
-                        status: 'confirmed'
+                        status
                     };
                     
                     try {
@@ -1516,7 +3259,7 @@ export async function airdropTokens(wallet: any, accountIndex: number): Promise<
             }
             
             // Add small delay to avoid rate limiting
-            if (i < recipients.length - 1) {
+            if (i < planned.length - 1) {
                 await new Promise(resolve => setTimeout(resolve, 1000));
             }
         }
@@ -1524,10 +3267,10 @@ export async function airdropTokens(wallet: any, accountIndex: number): Promise<
         // Summary
         log.airdropComplete(results.successful, results.failed, recipients.length);
         
-        if (results.successful > 0) {
+        if (results.transactions.length > 0) {
             console.log("\n📋 Transaction Details:");
             results.transactions.forEach((tx, index) => {
-                console.log(`${index + 1}. ${tx.to} - ${tx.amount} ETH - ${tx.hash}`);
+                console.log(`${index + 1}. ${tx.to} - ${tx.amount} ${unit} - ${tx.hash}${tx.status === 'failed' ? ' (reverted)' : ''}`);
             });
         }
         
@@ -0,0 +1,98 @@
+/**
+ * Backup import: bundles from older releases are migrated first, newer ones are refused,
+ * and merge skips wallets the vault already holds by id or by address
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Wallet } from 'ethers';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const PASSWORD = 'correct horse battery staple';
+
+let cwd: string;
+let workDir: string;
+
+// Fresh storage and backup modules bound to the temp directory, with the vault unlocked
+async function openVault() {
+    vi.resetModules();
+    const { secureStorage, SCHEMA_VERSION } = await import('../src/storage.js');
+    const backup = await import('../src/backup.js');
+    await secureStorage.setMasterPassword(PASSWORD);
+    return { secureStorage, SCHEMA_VERSION, ...backup };
+}
+
+const signer = Wallet.createRandom();
+
+// A single-account wallet in the v1 layout, with its key in plain text as a backup holds it
+const V1_WALLET = {
+    id: 'w1',
+    name: 'Old wallet',
+    type: 'keys',
+    address: signer.address,
+    publicKey: signer.publicKey,
+    privateKey: signer.privateKey,
+    createdAt: '2023-01-01T00:00:00.000Z'
+};
+
+function bundle(schemaVersion: number, wallets: unknown[], transactions: unknown[] = []): any {
+    return { schemaVersion, createdAt: '2024-01-01T00:00:00.000Z', user: null, config: {}, wallets, transactions };
+}
+
+beforeEach(() => {
+    cwd = process.cwd();
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ev3-backup-'));
+    process.chdir(workDir);
+});
+
+afterEach(() => {
+    process.chdir(cwd);
+    fs.rmSync(workDir, { recursive: true, force: true });
+});
+
+describe('backup schema versions', () => {
+    it('migrates an older bundle before importing it', async () => {
+        const vault = await openVault();
+        const transaction = { id: 't1', walletId: 'w1', type: 'send', hash: '0xabc', from: signer.address, to: signer.address, amount: '0.1', network: 'sepolia', timestamp: V1_WALLET.createdAt };
+
+        await vault.importBackup(bundle(1, [V1_WALLET], [transaction]), 'merge');
+
+        const [wallet] = await vault.secureStorage.loadWallets();
+        expect(wallet).toMatchObject({ id: 'w1', network: 'sepolia', accounts: [{ index: 0, address: signer.address, derivationPath: "m/44'/60'/0'/0/0" }] });
+        expect(wallet).not.toHaveProperty('privateKey');
+        expect(vault.secureStorage.decryptData(wallet!.accounts[0]!.encryptedPrivateKey!)).toBe(signer.privateKey);
+        expect(await vault.secureStorage.loadTransactions()).toEqual([{ ...transaction, status: 'confirmed', gasUsed: '0', gasPrice: '0', blockNumber: 0 }]);
+    }, 30000);
+
+    it('refuses a bundle from a newer release', async () => {
+        const vault = await openVault();
+
+        await expect(vault.importBackup(bundle(vault.SCHEMA_VERSION + 1, [V1_WALLET]), 'merge')).rejects.toThrow('newer than supported');
+        expect(await vault.secureStorage.loadWallets()).toEqual([]);
+    }, 30000);
+});
+
+describe('backup merge', () => {
+    it('skips wallets whose addresses are already in the vault under another id', async () => {
+        const vault = await openVault();
+        await vault.secureStorage.saveWatchWallet([{ address: signer.address.toLowerCase() }], 'watched');
+        const other = Wallet.createRandom();
+        const wallet = (id: string, address: string) => ({ ...V1_WALLET, id, name: id, address, privateKey: undefined });
+
+        const result = await vault.importBackup(bundle(1, [wallet('same address', signer.address), wallet('new', other.address), wallet('new copy', other.address)]), 'merge');
+
+        expect(result).toMatchObject({ walletsAdded: 1, walletsSkipped: 2 });
+        expect((await vault.secureStorage.loadWallets()).map(w => w.name)).toEqual(['watched', 'new']);
+    }, 30000);
+
+    it('names the vault wallet that already holds an address in the preview', async () => {
+        const vault = await openVault();
+        await vault.secureStorage.saveWatchWallet([{ address: signer.address }], 'watched');
+
+        const { address, publicKey, privateKey, ...current } = V1_WALLET;
+        const preview = await vault.previewBackup(bundle(vault.SCHEMA_VERSION, [{ ...current, network: 'sepolia', accounts: [{ index: 0, address, publicKey }] }]));
+
+        expect(preview.wallets).toEqual([expect.objectContaining({ id: 'w1', exists: false, addressesIn: 'watched' })]);
+    }, 30000);
+});
@@ -0,0 +1,37 @@
+/**
+ * Mnemonic checks: wordlist detection, and phrases whose checksum passes in more than one wordlist
+ */
+
+import { Wallet } from 'ethers';
+import { describe, expect, it } from 'vitest';
+import { checkMnemonic, normalizeWord, splitPhrase } from '../src/mnemonic.js';
+
+// Every word is in both Chinese wordlists at the same index, so the checksum passes in each
+const SHARED_CHINESE = '核 婚 又 妥 伊 寨 倍 姆 挖 浙 戴 殿';
+
+describe('checkMnemonic', () => {
+    it('detects the wordlist of an English phrase', () => {
+        const phrase = Wallet.createRandom().mnemonic!.phrase;
+        expect(checkMnemonic(phrase)).toEqual({ phrase, locale: 'en', candidates: ['en'] });
+    });
+
+    it('lists every wordlist the checksum passes in', () => {
+        expect(checkMnemonic(SHARED_CHINESE).candidates).toEqual(['zh_cn', 'zh_tw']);
+    });
+
+    it('uses the wordlist the user picked', () => {
+        expect(checkMnemonic(SHARED_CHINESE, 'zh_tw')).toMatchObject({ locale: 'zh_tw', candidates: ['zh_tw'] });
+    });
+
+    it('reports a checksum mismatch when every word is valid', () => {
+        expect(() => checkMnemonic(Array(12).fill('abandon').join(' '))).toThrow('checksum mismatch');
+    });
+});
+
+describe('normalizeWord', () => {
+    it('matches the words splitPhrase produces, whatever the typed form', () => {
+        const [word] = splitPhrase('\u304d\u3099\u3093\u3000abandon');
+        expect(normalizeWord(' \u304e\u3093 ')).toBe(word);
+        expect(normalizeWord('Abandon')).toBe(splitPhrase('ABANDON')[0]);
+    });
+});
@@ -0,0 +1,206 @@
+/**
+ * FailoverProvider against local stub JSON-RPC servers: retries with backoff, failover order,
+ * cooldown of failed endpoints, chain ID checks, batches and one-shot broadcasts
+ */
+
+import { ethers } from 'ethers';
+import { afterEach, describe, expect, it } from 'vitest';
+import { FailoverProvider, ChainMismatchError, backoffDelay } from '../src/provider.js';
+import { stub, closeStubs } from './rpc-stub.js';
+import type { Answer } from './rpc-stub.js';
+
+const SEPOLIA = new ethers.Network('sepolia', 11155111);
+
+const providers: FailoverProvider[] = [];
+
+function provider(urls: string[], options: ConstructorParameters<typeof FailoverProvider>[2] = {}): FailoverProvider {
+    const created = new FailoverProvider(urls, SEPOLIA, { baseDelayMs: 10, maxDelayMs: 100, timeoutMs: 500, ...options });
+    providers.push(created);
+    return created;
+}
+
+const blockNumber = (): Answer => ({ result: '0x10' });
+
+afterEach(async () => {
+    providers.splice(0).forEach(p => p.destroy());
+    await closeStubs();
+});
+
+describe('retries', () => {
+    it('retries a failing endpoint with exponential backoff', async () => {
+        const flaky = await stub((_, count) => (count <= 2 ? { status: 503 } : blockNumber()));
+        const rpc = provider([flaky.url], { baseDelayMs: 50, retries: 2 });
+
+        expect(await rpc.send('eth_blockNumber', [])).toBe('0x10');
+
+        const times = flaky.calls.filter(c => c.method === 'eth_blockNumber').map(c => c.at);
+        expect(times).toHaveLength(3);
+        expect(times[1]! - times[0]!).toBeGreaterThanOrEqual(45);
+        expect(times[2]! - times[1]!).toBeGreaterThanOrEqual(95);
+    });
+
+    it('caps the backoff delay', () => {
+        const options = { baseDelayMs: 250, maxDelayMs: 4000 };
+        expect([0, 1, 2, 3, 4, 5].map(attempt => backoffDelay(attempt, options))).toEqual([250, 500, 1000, 2000, 4000, 4000]);
+    });
+
+    it('does not retry a revert that carries revert data', async () => {
+        const reverting = await stub(() => ({ error: { code: -32603, message: 'execution reverted', data: '0x' } }));
+        const rpc = provider([reverting.url]);
+
+        await expect(rpc.send('eth_call', [{ to: ethers.ZeroAddress }, 'latest'])).rejects.toThrow(/execution reverted/);
+        expect(reverting.methods()).toEqual(['eth_call']);
+    });
+});
+
+describe('failover', () => {
+    it('tries endpoints in configured order and stops at the first that answers', async () => {
+        const down = await stub(() => ({ status: 500 }));
+        const second = await stub(blockNumber);
+        const third = await stub(blockNumber);
+        const rpc = provider([down.url, second.url, third.url], { retries: 1 });
+
+        expect(await rpc.send('eth_blockNumber', [])).toBe('0x10');
+        expect(down.methods()).toEqual(['eth_blockNumber', 'eth_blockNumber']);
+        expect(second.methods()).toEqual(['eth_blockNumber']);
+        expect(third.methods()).toEqual([]);
+    });
+
+    it('reports the last error once every endpoint has failed', async () => {
+        const first = await stub(() => ({ status: 500 }));
+        const second = await stub(() => ({ status: 502 }));
+        const rpc = provider([first.url, second.url], { retries: 0 });
+
+        await expect(rpc.send('eth_blockNumber', [])).rejects.toThrow(/All RPC endpoints failed: HTTP 502/);
+    });
+
+    it('uses a failed endpoint only as a last resort until its cooldown ends', async () => {
+        let healthy = false;
+        const primary = await stub(() => (healthy ? blockNumber() : { status: 503 }));
+        const backup = await stub(blockNumber);
+        const rpc = provider([primary.url, backup.url], { retries: 0, cooldownMs: 200 });
+
+        await rpc.send('eth_blockNumber', []);
+        healthy = true;
+        await rpc.send('eth_blockNumber', []);
+        expect(primary.methods()).toHaveLength(1);
+        expect(backup.methods()).toHaveLength(2);
+
+        await new Promise(resolve => setTimeout(resolve, 250));
+        await rpc.send('eth_blockNumber', []);
+        expect(primary.methods()).toHaveLength(2);
+        expect(backup.methods()).toHaveLength(2);
+    });
+});
+
+describe('chain ID checks', () => {
+    it('refuses every endpoint on the wrong chain', async () => {
+        const mainnet = await stub(blockNumber, 1);
+        const rpc = provider([mainnet.url], { retries: 0 });
+
+        const error = await rpc.send('eth_blockNumber', []).catch(e => e);
+        expect(error).toBeInstanceOf(ChainMismatchError);
+        expect(error).toMatchObject({ network: 'sepolia', expected: 11155111, actual: [1] });
+        expect(mainnet.methods()).toEqual([]);
+    });
+
+    it('skips a wrong-chain endpoint in favour of a correct fallback', async () => {
+        const mainnet = await stub(blockNumber, 1);
+        const sepolia = await stub(blockNumber);
+        const rpc = provider([mainnet.url, sepolia.url], { retries: 0 });
+
+        const chain = await rpc.verifyChain();
+        expect(chain).toEqual({ network: 'sepolia', chainId: 11155111, rpcHost: new URL(sepolia.url).origin });
+        expect(mainnet.methods()).toEqual([]);
+    });
+});
+
+describe('batch', () => {
+    it('returns results in call order in a single request', async () => {
+        const node = await stub(call => ({ result: call.method === 'eth_getBalance' ? '0x64' : '0x2' }));
+        const rpc = provider([node.url]);
+
+        const results = await rpc.batch([
+            { method: 'eth_getBalance', params: [ethers.ZeroAddress, 'latest'] },
+            { method: 'eth_getTransactionCount', params: [ethers.ZeroAddress, 'latest'] }
+        ]);
+        expect(results).toEqual(['0x64', '0x2']);
+        expect(node.methods()).toEqual(['eth_getBalance', 'eth_getTransactionCount']);
+    });
+
+    it('names the call that failed', async () => {
+        const node = await stub(call => (call.method === 'eth_call'
+            ? { error: { code: -32000, message: 'execution reverted' } }
+            : blockNumber()));
+        const rpc = provider([node.url]);
+
+        await expect(rpc.batch([
+            { method: 'eth_blockNumber', params: [] },
+            { method: 'eth_call', params: [{ to: ethers.ZeroAddress }, 'latest'] }
+        ])).rejects.toThrow('eth_call failed in batch: execution reverted');
+    });
+
+    it('retries the batch on another endpoint when the first is overloaded', async () => {
+        const busy = await stub(() => ({ error: { code: -32005, message: 'limit exceeded' } }));
+        const node = await stub(blockNumber);
+        const rpc = provider([busy.url, node.url], { retries: 0 });
+
+        expect(await rpc.batch([{ method: 'eth_blockNumber', params: [] }])).toEqual(['0x10']);
+    });
+
+    it('sends nothing for an empty batch', async () => {
+        const node = await stub(blockNumber);
+        expect(await provider([node.url]).batch([])).toEqual([]);
+        expect(node.calls).toEqual([]);
+    });
+});
+
+describe('broadcasts', () => {
+    const signer = ethers.Wallet.createRandom();
+    const signRaw = () => signer.signTransaction({ to: signer.address, value: 1n, nonce: 0, gasLimit: 21000, gasPrice: 1n, chainId: 11155111 });
+
+    it('does not resend a broadcast that timed out, and reports its hash', async () => {
+        const slow = await stub(call => (call.method === 'eth_sendRawTransaction' ? { hang: true } : { result: null }));
+        const other = await stub(() => ({ result: null }));
+        const rpc = provider([slow.url, other.url], { timeoutMs: 100 });
+        const raw = await signRaw();
+
+        await expect(rpc.send('eth_sendRawTransaction', [raw])).rejects.toThrow(`Transaction ${ethers.keccak256(raw)} may still reach the network`);
+        expect(slow.methods().filter(m => m === 'eth_sendRawTransaction')).toHaveLength(1);
+        expect(other.methods()).not.toContain('eth_sendRawTransaction');
+    });
+
+    it('treats a timed-out broadcast the network already has as sent', async () => {
+        const slow = await stub(call => (call.method === 'eth_sendRawTransaction' ? { hang: true } : { result: { hash: '0x' } }));
+        const rpc = provider([slow.url], { timeoutMs: 100 });
+        const raw = await signRaw();
+
+        expect(await rpc.send('eth_sendRawTransaction', [raw])).toBe(ethers.keccak256(raw));
+    });
+
+    it('treats "already known" as sent', async () => {
+        const node = await stub(() => ({ error: { code: -32000, message: 'already known' } }));
+        const raw = await signRaw();
+
+        expect(await provider([node.url]).send('eth_sendRawTransaction', [raw])).toBe(ethers.keccak256(raw));
+    });
+
+    it('keeps "nonce too low" as an error when the transaction is not on chain', async () => {
+        const node = await stub(call => (call.method === 'eth_sendRawTransaction'
+            ? { error: { code: -32000, message: 'nonce too low' } }
+            : { result: null }));
+        const raw = await signRaw();
+
+        await expect(provider([node.url]).send('eth_sendRawTransaction', [raw])).rejects.toThrow(/nonce too low/);
+    });
+
+    it('broadcasts elsewhere when an endpoint refuses the connection', async () => {
+        const node = await stub(call => ({ result: call.method === 'eth_sendRawTransaction' ? ethers.keccak256(call.params[0] as string) : null }));
+        const raw = await signRaw();
+        // Nothing listens on port 9 (discard) here, so the connection is refused before anything is sent
+        const rpc = provider(['http://127.0.0.1:9', node.url]);
+
+        expect(await rpc.send('eth_sendRawTransaction', [raw])).toBe(ethers.keccak256(raw));
+        expect(node.methods()).toEqual(['eth_sendRawTransaction']);
+    });
+});
@@ -0,0 +1,69 @@
+/**
+ * Local stub JSON-RPC servers for tests: each call is answered by a callback, or fails the whole HTTP request
+ */
+
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { ethers } from 'ethers';
+
+// What a stub does with one call: answer it, or fail the whole HTTP request
+export type Answer = { result: unknown } | { error: { code: number; message: string; data?: string } } | { status: number } | { hang: true };
+
+export interface Call {
+    method: string;
+    params: unknown[];
+    at: number; // Date.now() on arrival
+}
+
+export interface Stub {
+    url: string;
+    calls: Call[];
+    methods(): string[]; // Calls other than the chain ID check
+}
+
+const servers: http.Server[] = [];
+
+export async function stub(answer: (call: Call, count: number) => Answer, chainId = 11155111): Promise<Stub> {
+    const calls: Call[] = [];
+    const server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => body += chunk);
+        req.on('end', () => {
+            const payload = JSON.parse(body);
+            const entries: any[] = Array.isArray(payload) ? payload : [payload];
+            const replies: any[] = [];
+            for (const entry of entries) {
+                const call = { method: entry.method, params: entry.params ?? [], at: Date.now() };
+                calls.push(call);
+                const reply: Answer = call.method === 'eth_chainId'
+                    ? { result: ethers.toQuantity(chainId) }
+                    : answer(call, calls.filter(c => c.method === call.method).length);
+                if ('hang' in reply) {
+                    return;
+                }
+                if ('status' in reply) {
+                    res.writeHead(reply.status).end();
+                    return;
+                }
+                replies.push({ jsonrpc: '2.0', id: entry.id, ...reply });
+            }
+            res.setHeader('content-type', 'application/json');
+            res.end(JSON.stringify(Array.isArray(payload) ? replies : replies[0]));
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    servers.push(server);
+    return {
+        url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+        calls,
+        methods: () => calls.filter(c => c.method !== 'eth_chainId').map(c => c.method)
+    };
+}
+
+// Stop every stub started since the last call; for afterEach
+export async function closeStubs(): Promise<void> {
+    await Promise.all(servers.splice(0).map(server => new Promise(resolve => {
+        server.closeAllConnections();
+        server.close(resolve);
+    })));
+}
@@ -0,0 +1,147 @@
+/**
+ * ETH sends from a stored account against a stub chain: balance and gas checks before signing,
+ * and a reverted transaction recorded as failed with its hash
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ethers, Wallet } from 'ethers';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { stub, closeStubs } from './rpc-stub.js';
+import type { Answer, Call } from './rpc-stub.js';
+
+const PASSWORD = 'correct horse battery staple';
+const RECIPIENT = '0x2222222222222222222222222222222222222222';
+// 1 Gwei, so a plain transfer costs 21000 Gwei at most
+const FEES = { mode: 'legacy' as const, gasPrice: '1' };
+
+let cwd: string;
+let workDir: string;
+
+// A minimal chain: the account's balance, a plain-transfer gas estimate, and receipts with the given status
+function chain(balance: bigint, receiptStatus: 0 | 1) {
+    let sent = '';
+    return (call: Call): Answer => {
+        switch (call.method) {
+            case 'eth_getBalance':
+                return { result: ethers.toQuantity(balance) };
+            case 'eth_estimateGas':
+                return { result: ethers.toQuantity(21000) };
+            case 'eth_gasPrice':
+            case 'eth_maxPriorityFeePerGas':
+                return { result: ethers.toQuantity(ethers.parseUnits('1', 'gwei')) };
+            case 'eth_getTransactionCount':
+                return { result: '0x0' };
+            case 'eth_blockNumber':
+                return { result: '0x10' };
+            case 'eth_getBlockByNumber':
+                return {
+                    result: {
+                        hash: ethers.ZeroHash,
+                        parentHash: ethers.ZeroHash,
+                        number: '0x10',
+                        timestamp: '0x0',
+                        nonce: '0x0000000000000000',
+                        difficulty: '0x0',
+                        gasLimit: ethers.toQuantity(30000000),
+                        gasUsed: '0x0',
+                        miner: ethers.ZeroAddress,
+                        extraData: '0x',
+                        baseFeePerGas: '0x1',
+                        transactions: []
+                    }
+                };
+            case 'eth_sendRawTransaction':
+                sent = call.params[0] as string;
+                return { result: ethers.keccak256(sent) };
+            case 'eth_getTransactionReceipt': {
+                const tx = ethers.Transaction.from(sent);
+                return {
+                    result: {
+                        transactionHash: tx.hash,
+                        transactionIndex: '0x0',
+                        blockHash: ethers.ZeroHash,
+                        blockNumber: '0x10',
+                        from: tx.from,
+                        to: tx.to,
+                        contractAddress: null,
+                        cumulativeGasUsed: ethers.toQuantity(21000),
+                        gasUsed: ethers.toQuantity(21000),
+                        effectiveGasPrice: ethers.toQuantity(tx.gasPrice!),
+                        logs: [],
+                        logsBloom: '0x' + '00'.repeat(256),
+                        type: '0x0',
+                        status: ethers.toQuantity(receiptStatus)
+                    }
+                };
+            }
+            default:
+                return { error: { code: -32601, message: `method not found: ${call.method}` } };
+        }
+    };
+}
+
+// Storage, wallet and a key wallet on a custom network served by the stub, all bound to the temp directory
+async function openWallet(answer: (call: Call) => Answer) {
+    const node = await stub(answer);
+    vi.resetModules();
+    const { secureStorage } = await import('../src/storage.js');
+    const { saveCustomNetwork } = await import('../src/networks.js');
+    const wallet = await import('../src/wallet.js');
+    await secureStorage.setMasterPassword(PASSWORD);
+    saveCustomNetwork({ name: 'stubnet', rpcUrl: node.url, chainId: 11155111, currencySymbol: 'ETH' });
+    const id = await secureStorage.saveKeyWallet([Wallet.createRandom()], 'keys', 'stubnet');
+    return { node, secureStorage, ...wallet, stored: (await secureStorage.getWallet(id))! };
+}
+
+beforeEach(() => {
+    cwd = process.cwd();
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ev3-send-'));
+    process.chdir(workDir);
+});
+
+afterEach(async () => {
+    await closeStubs();
+    process.chdir(cwd);
+    fs.rmSync(workDir, { recursive: true, force: true });
+});
+
+describe('prepareAccountTransfer', () => {
+    it('compares amounts to the wei, not as floats', async () => {
+        const vault = await openWallet(chain(ethers.parseEther('1') + ethers.parseEther('0.000021'), 1));
+
+        const prepared = await vault.prepareAccountTransfer(vault.stored, 0, { to: RECIPIENT, amount: '1', fees: FEES });
+        expect(prepared.transaction.value).toBe(ethers.parseEther('1'));
+        await expect(vault.prepareAccountTransfer(vault.stored, 0, { to: RECIPIENT, amount: '1.000021000000000001', fees: FEES }))
+            .rejects.toThrow('Insufficient balance: required 1.000021000000000001 ETH');
+    }, 30000);
+
+    it('refuses an amount the balance covers but not together with gas', async () => {
+        const vault = await openWallet(chain(ethers.parseEther('1'), 1));
+
+        await expect(vault.prepareAccountTransfer(vault.stored, 0, { to: RECIPIENT, amount: '1', fees: FEES }))
+            .rejects.toThrow('Insufficient balance: 1.000021 ETH needed for the amount and gas, available 1.0 ETH');
+        expect(vault.node.methods()).not.toContain('eth_sendRawTransaction');
+    }, 30000);
+});
+
+describe('executeAccountTransfer', () => {
+    it('records a reverted transaction as failed, with its hash and the gas it used', async () => {
+        const vault = await openWallet(chain(ethers.parseEther('2'), 0));
+        const prepared = await vault.prepareAccountTransfer(vault.stored, 0, { to: RECIPIENT, amount: '1', fees: FEES });
+
+        const record = await vault.executeAccountTransfer(vault.stored, 0, prepared);
+
+        expect(record).toMatchObject({ status: 'failed', gasUsed: '21000', blockNumber: 16 });
+        expect(record.hash).toMatch(/^0x[0-9a-f]{64}$/);
+        expect(await vault.secureStorage.loadTransactions(vault.stored.id)).toEqual([record]);
+    }, 30000);
+
+    it('records a successful transaction as confirmed', async () => {
+        const vault = await openWallet(chain(ethers.parseEther('2'), 1));
+        const prepared = await vault.prepareAccountTransfer(vault.stored, 0, { to: RECIPIENT, amount: '1', fees: FEES });
+
+        expect(await vault.executeAccountTransfer(vault.stored, 0, prepared)).toMatchObject({ status: 'confirmed' });
+    }, 30000);
+});
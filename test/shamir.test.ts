@@ -0,0 +1,70 @@
+/**
+ * Shamir shares of a mnemonic: every M-of-N subset recovers it, fewer shares, mixed sets
+ * and typos are refused rather than producing a different mnemonic
+ */
+
+import * as crypto from 'crypto';
+import { ethers, Wallet } from 'ethers';
+import { describe, expect, it } from 'vitest';
+import { checkMnemonic } from '../src/mnemonic.js';
+import { splitMnemonic, combineShares, parseShare } from '../src/shamir.js';
+
+const mnemonic = checkMnemonic(Wallet.createRandom().mnemonic!.phrase);
+
+// Every subset of `size` items, keeping their order
+function subsets<T>(items: T[], size: number): T[][] {
+    if (size === 0) {
+        return [[]];
+    }
+    return items.flatMap((item, i) => subsets(items.slice(i + 1), size - 1).map(rest => [item, ...rest]));
+}
+
+describe('splitMnemonic and combineShares', () => {
+    it('recovers the mnemonic from every M-of-N subset', () => {
+        for (let n = 2; n <= 5; n++) {
+            for (let m = 2; m <= n; m++) {
+                const shares = splitMnemonic(mnemonic, n, m);
+                for (const subset of subsets(shares, m)) {
+                    expect(combineShares(subset).phrase).toBe(mnemonic.phrase);
+                }
+            }
+        }
+    });
+
+    it('refuses M-1 shares instead of returning a different mnemonic', () => {
+        const shares = splitMnemonic(mnemonic, 5, 3);
+        expect(() => combineShares(shares.slice(0, 2))).toThrow('Need 3 different shares');
+        expect(() => combineShares([shares[0]!, shares[0]!, shares[1]!])).toThrow('Need 3 different shares');
+    });
+
+    it('refuses shares mixed from different splits', () => {
+        const first = splitMnemonic(mnemonic, 3, 2);
+        const second = splitMnemonic(mnemonic, 3, 2);
+        expect(parseShare(first[0]!).setId).toHaveLength(16);
+        expect(() => combineShares([first[0]!, second[1]!])).toThrow('belongs to a different split');
+    });
+
+    it('catches a typo through the share checksum', () => {
+        const [share] = splitMnemonic(mnemonic, 3, 2);
+        const position = share!.length - 10;
+        const typo = share!.slice(0, position) + (share![position] === '0' ? '1' : '0') + share!.slice(position + 1);
+        expect(() => parseShare(typo)).toThrow('checksum mismatch');
+    });
+
+    it('round-trips a non-English mnemonic in its own wordlist', () => {
+        const japanese = checkMnemonic(ethers.Mnemonic.entropyToPhrase(crypto.randomBytes(16), ethers.wordlists.ja!), 'ja');
+        const shares = splitMnemonic(japanese, 3, 2);
+        expect(combineShares([shares[2]!, shares[0]!])).toMatchObject({ phrase: japanese.phrase, locale: 'ja' });
+    });
+
+    it('still combines version 1 shares with a 2-byte set ID', () => {
+        const legacy = splitMnemonic(mnemonic, 3, 2).map(text => {
+            const share = parseShare(text);
+            const payload = new Uint8Array([1, 0xab, 0xcd, share.threshold, share.index, 0, ...share.data]);
+            const sum = crypto.createHash('sha256').update(payload).digest().subarray(0, 4);
+            return 'ev3share1-' + ethers.hexlify(new Uint8Array([...payload, ...sum])).slice(2);
+        });
+        expect(parseShare(legacy[0]!).setId).toBe('abcd');
+        expect(combineShares(legacy.slice(1)).phrase).toBe(mnemonic.phrase);
+    });
+});
@@ -0,0 +1,357 @@
+/**
+ * Schema migrations of the encrypted vault: one test per MIGRATIONS step, the backup taken first,
+ * and the originals left untouched when a migration fails; then the encryption envelope and KDF upgrades
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Wallet } from 'ethers';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { KDF_PRESETS, formatKdfTag } from '../src/kdf.js';
+
+const PASSWORD = 'correct horse battery staple';
+
+let cwd: string;
+let workDir: string;
+
+// A fresh SecureStorage bound to the temp directory; the module resolves its paths on import
+async function openStorage() {
+    vi.resetModules();
+    const { secureStorage } = await import('../src/storage.js');
+    return secureStorage;
+}
+
+function storagePath(...parts: string[]): string {
+    return path.join(workDir, '.wallet-storage', ...parts);
+}
+
+// Write wallets.enc and transactions.enc in the unversioned v1 layout (bare arrays)
+async function writeV1Vault(wallets: unknown[], transactions: unknown[]): Promise<void> {
+    const storage = await openStorage();
+    await storage.setMasterPassword(PASSWORD);
+    fs.writeFileSync(storagePath('wallets.enc'), storage.encryptData(JSON.stringify(wallets)));
+    fs.writeFileSync(storagePath('transactions.enc'), storage.encryptData(JSON.stringify(transactions)));
+}
+
+function backupDirs(): string[] {
+    const dir = storagePath('backups');
+    return fs.existsSync(dir) ? fs.readdirSync(dir).map(name => path.join(dir, name)) : [];
+}
+
+const V1_WALLET = {
+    id: 'w1',
+    name: 'Old wallet',
+    encryptedMnemonic: 'x',
+    address: '0x1111111111111111111111111111111111111111',
+    publicKey: '0x02aa',
+    encryptedPrivateKey: 'y',
+    createdAt: '2023-01-01T00:00:00.000Z',
+    accounts: undefined
+};
+
+const V1_TRANSACTION = {
+    id: 't1',
+    walletId: 'w1',
+    type: 'send',
+    hash: '0xabc',
+    from: '0x1111111111111111111111111111111111111111',
+    to: '0x2222222222222222222222222222222222222222',
+    amount: '0.1',
+    network: 'sepolia',
+    timestamp: '2023-01-02T00:00:00.000Z'
+};
+
+beforeEach(() => {
+    cwd = process.cwd();
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ev3-storage-'));
+    process.chdir(workDir);
+});
+
+afterEach(() => {
+    process.chdir(cwd);
+    fs.rmSync(workDir, { recursive: true, force: true });
+});
+
+describe('migration to schema version 2', () => {
+    it('moves single-account wallets into the accounts array', async () => {
+        await writeV1Vault([{ ...V1_WALLET, network: undefined, currentAccountIndex: 3 }], []);
+
+        const storage = await openStorage();
+        expect(await storage.loadMasterPassword(PASSWORD)).toBe(true);
+        const [wallet] = await storage.loadWallets();
+
+        expect(wallet).toMatchObject({
+            id: 'w1',
+            network: 'sepolia',
+            currentAccountIndex: 0,
+            lastUsed: V1_WALLET.createdAt,
+            accounts: [{
+                index: 0,
+                address: V1_WALLET.address,
+                publicKey: V1_WALLET.publicKey,
+                encryptedPrivateKey: V1_WALLET.encryptedPrivateKey,
+                derivationPath: "m/44'/60'/0'/0/0"
+            }]
+        });
+        expect(wallet).not.toHaveProperty('address');
+    }, 30000);
+
+    it('fills in the fields transaction records lacked', async () => {
+        await writeV1Vault([V1_WALLET], [V1_TRANSACTION]);
+
+        const storage = await openStorage();
+        await storage.loadMasterPassword(PASSWORD);
+
+        expect(await storage.loadTransactions()).toEqual([{
+            ...V1_TRANSACTION,
+            status: 'confirmed',
+            gasUsed: '0',
+            gasPrice: '0',
+            blockNumber: 0
+        }]);
+    }, 30000);
+
+    it('stamps the config with the current schema version', async () => {
+        fs.mkdirSync(storagePath(), { recursive: true });
+        fs.writeFileSync(storagePath('config.json'), JSON.stringify({ defaultNetwork: 'mainnet' }));
+
+        const storage = await openStorage();
+
+        expect(storage.getConfig()).toMatchObject({ defaultNetwork: 'mainnet', schemaVersion: 2 });
+        expect(JSON.parse(fs.readFileSync(storagePath('config.json'), 'utf8')).schemaVersion).toBe(2);
+        expect(backupDirs().some(dir => fs.existsSync(path.join(dir, 'config.json')))).toBe(true);
+    });
+});
+
+describe('migration safety', () => {
+    it('backs up the original files and salt before rewriting them', async () => {
+        await writeV1Vault([V1_WALLET], [V1_TRANSACTION]);
+        const originals = ['wallets.enc', 'transactions.enc', 'salt.enc'].map(name => fs.readFileSync(storagePath(name), 'utf8'));
+
+        const storage = await openStorage();
+        await storage.loadMasterPassword(PASSWORD);
+
+        const [backup] = backupDirs();
+        expect(path.basename(backup!)).toMatch(/^schema-v1-/);
+        expect(['wallets.enc', 'transactions.enc', 'salt.enc'].map(name => fs.readFileSync(path.join(backup!, name), 'utf8'))).toEqual(originals);
+        expect(fs.readFileSync(storagePath('wallets.enc'), 'utf8')).not.toBe(originals[0]);
+    }, 30000);
+
+    it('leaves the originals untouched when a migration step throws', async () => {
+        // A null wallet entry makes the v2 step fail after the backup is taken
+        await writeV1Vault([V1_WALLET, null], [V1_TRANSACTION]);
+        const originals = ['wallets.enc', 'transactions.enc'].map(name => fs.readFileSync(storagePath(name), 'utf8'));
+
+        const storage = await openStorage();
+        await expect(storage.loadMasterPassword(PASSWORD)).rejects.toThrow();
+
+        expect(['wallets.enc', 'transactions.enc'].map(name => fs.readFileSync(storagePath(name), 'utf8'))).toEqual(originals);
+        expect(backupDirs()).toHaveLength(1);
+    }, 30000);
+
+    it('restores files already rewritten when a later write fails', async () => {
+        await writeV1Vault([V1_WALLET], [V1_TRANSACTION]);
+        const originals = ['wallets.enc', 'transactions.enc'].map(name => fs.readFileSync(storagePath(name), 'utf8'));
+
+        const storage = await openStorage();
+        // wallets.enc is written first; a directory in the way of the transactions temp file fails the second write
+        fs.mkdirSync(storagePath('transactions.enc.tmp'));
+        await expect(storage.loadMasterPassword(PASSWORD)).rejects.toThrow();
+
+        expect(['wallets.enc', 'transactions.enc'].map(name => fs.readFileSync(storagePath(name), 'utf8'))).toEqual(originals);
+    }, 30000);
+});
+
+describe('master password change', () => {
+    const wallet = (name: string) => ({
+        id: name,
+        name,
+        type: 'keys',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        lastUsed: '2024-01-01T00:00:00.000Z',
+        network: 'sepolia',
+        accounts: [],
+        currentAccountIndex: 0
+    });
+
+    it('re-encrypts saved wallet versions instead of deleting them', async () => {
+        const storage = await openStorage();
+        await storage.setMasterPassword(PASSWORD);
+        await storage.saveWallets([wallet('first')] as any);
+        await storage.saveWallets([wallet('first'), wallet('second')] as any);
+        const [saved] = await storage.listWalletGenerations();
+        expect(saved?.wallets).toBe(1);
+
+        await storage.rotateMasterPassword('new password');
+
+        const reopened = await openStorage();
+        expect(await reopened.loadMasterPassword(PASSWORD)).toBe(false);
+        expect(await reopened.loadMasterPassword('new password')).toBe(true);
+        expect((await reopened.listWalletGenerations()).map(g => g.wallets)).toEqual([1]);
+        expect((await reopened.restoreWalletGeneration(saved!.id)).map(w => w.id)).toEqual(['first']);
+        expect(fs.existsSync(storagePath('rotation.json'))).toBe(false);
+    }, 60000);
+
+    it('treats an unreadable journal as a change that never committed', async () => {
+        const storage = await openStorage();
+        await storage.setMasterPassword(PASSWORD);
+        await storage.saveWallets([wallet('first')] as any);
+        const originals = ['wallets.enc', 'salt.enc'].map(name => fs.readFileSync(storagePath(name), 'utf8'));
+        fs.writeFileSync(storagePath('salt.enc.new'), 'staged');
+        fs.writeFileSync(storagePath('wallets.enc.new'), 'staged');
+        fs.writeFileSync(storagePath('rotation.json'), '{"fil');
+
+        const reopened = await openStorage();
+
+        expect(['wallets.enc.new', 'salt.enc.new', 'rotation.json'].filter(name => fs.existsSync(storagePath(name)))).toEqual([]);
+        expect(['wallets.enc', 'salt.enc'].map(name => fs.readFileSync(storagePath(name), 'utf8'))).toEqual(originals);
+        expect(await reopened.loadMasterPassword(PASSWORD)).toBe(true);
+    }, 30000);
+});
+
+describe('damaged wallet file', () => {
+    it('refuses to save over an unreadable wallets.enc and restores a previous version instead', async () => {
+        const storage = await openStorage();
+        await storage.setMasterPassword(PASSWORD);
+        const first = await storage.saveWatchWallet([{ address: V1_WALLET.address }], 'first');
+        await storage.saveWatchWallet([{ address: '0x3333333333333333333333333333333333333333' }], 'second');
+        const damaged = fs.readFileSync(storagePath('wallets.enc'), 'utf8').slice(0, -8) + 'deadbeef';
+        fs.writeFileSync(storagePath('wallets.enc'), damaged);
+
+        const reopened = await openStorage();
+        expect(await reopened.loadMasterPassword(PASSWORD)).toBe(true);
+        expect(reopened.isWalletsFileDamaged()).toBe(true);
+        await expect(reopened.loadWallets()).rejects.toThrow("wallets.enc can't be read");
+        await expect(reopened.saveWatchWallet([{ address: '0x4444444444444444444444444444444444444444' }], 'third')).rejects.toThrow("can't be read");
+        expect(fs.readFileSync(storagePath('wallets.enc'), 'utf8')).toBe(damaged);
+
+        const [previous] = await reopened.listWalletGenerations();
+        expect((await reopened.restoreWalletGeneration(previous!.id)).map(w => w.id)).toEqual([first]);
+        expect(reopened.isWalletsFileDamaged()).toBe(false);
+    }, 30000);
+
+    it('refuses to record transactions over an unreadable transactions.enc', async () => {
+        const storage = await openStorage();
+        await storage.setMasterPassword(PASSWORD);
+        fs.writeFileSync(storagePath('transactions.enc'), 'not a vault file');
+
+        await expect(storage.saveTransaction({ ...V1_TRANSACTION, gasUsed: '0', gasPrice: '0', blockNumber: 1, status: 'confirmed' } as any))
+            .rejects.toThrow("transactions.enc can't be read");
+        expect(fs.readFileSync(storagePath('transactions.enc'), 'utf8')).toBe('not a vault file');
+    }, 30000);
+});
+
+describe('wallet types', () => {
+    it('adds private keys only to imported-key wallets', async () => {
+        const storage = await openStorage();
+        await storage.setMasterPassword(PASSWORD);
+        const watchId = await storage.saveWatchWallet([{ address: V1_WALLET.address }], 'watched');
+        const keysId = await storage.saveKeyWallet([Wallet.createRandom()], 'keys');
+
+        await expect(storage.addKeysToWallet(watchId, [Wallet.createRandom()])).rejects.toThrow('only be added to an imported-key wallet');
+        expect((await storage.getWallet(watchId))!.accounts.every(account => account.encryptedPrivateKey === undefined)).toBe(true);
+        expect((await storage.addKeysToWallet(keysId, [Wallet.createRandom()])).accounts).toHaveLength(2);
+    }, 30000);
+});
+
+describe('encryption envelope', () => {
+    // A vault from before the versioned envelope: bare hex salt, PBKDF2-SHA512 key, iv:tag:ciphertext with a fixed AAD
+    function writeLegacyVault(signer: ReturnType<typeof Wallet.createRandom>): void {
+        const salt = crypto.randomBytes(16);
+        const key = crypto.pbkdf2Sync(PASSWORD, salt, 100000, 32, 'sha512');
+        const encrypt = (text: string) => {
+            const iv = crypto.randomBytes(12);
+            const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+            cipher.setAAD(Buffer.from('wallet-storage', 'utf8'));
+            const encrypted = cipher.update(text, 'utf8', 'hex') + cipher.final('hex');
+            return `${iv.toString('hex')}:${cipher.getAuthTag().toString('hex')}:${encrypted}`;
+        };
+        const wallet = {
+            ...V1_WALLET,
+            address: signer.address,
+            encryptedMnemonic: encrypt(signer.mnemonic!.phrase),
+            encryptedPrivateKey: encrypt(signer.privateKey)
+        };
+        fs.mkdirSync(storagePath(), { recursive: true });
+        fs.writeFileSync(storagePath('salt.enc'), salt.toString('hex'));
+        fs.writeFileSync(storagePath('wallets.enc'), encrypt(JSON.stringify([wallet])));
+    }
+
+    it('unlocks a PBKDF2-era vault and rewrites it with scrypt in the v2 envelope', async () => {
+        const signer = Wallet.createRandom();
+        writeLegacyVault(signer);
+
+        const storage = await openStorage();
+        expect(await storage.loadMasterPassword(PASSWORD)).toBe(true);
+
+        expect(fs.readFileSync(storagePath('wallets.enc'), 'utf8')).toMatch(/^v2:scrypt,N=131072,r=8,p=1:/);
+        expect(JSON.parse(fs.readFileSync(storagePath('salt.enc'), 'utf8')).kdf).toEqual({ kdf: 'scrypt', N: 131072, r: 8, p: 1 });
+        const reopened = await openStorage();
+        expect(await reopened.loadMasterPassword(PASSWORD)).toBe(true);
+        const [wallet] = await reopened.loadWallets();
+        expect(wallet!.accounts[0]!.encryptedPrivateKey).toMatch(/^v2:scrypt,/);
+        expect(reopened.decryptData(wallet!.accounts[0]!.encryptedPrivateKey!)).toBe(signer.privateKey);
+        expect(reopened.decryptData(wallet!.encryptedMnemonic!)).toBe(signer.mnemonic!.phrase);
+    }, 60000);
+
+    it.each(KDF_PRESETS.map(preset => [preset.label, preset.params] as const))('round-trips the vault after switching to %s', async (_, params) => {
+        const storage = await openStorage();
+        await storage.setMasterPassword(PASSWORD);
+        const id = await storage.saveWatchWallet([{ address: V1_WALLET.address }], 'watched');
+
+        await storage.changeKdf(PASSWORD, params);
+
+        expect(fs.readFileSync(storagePath('wallets.enc'), 'utf8').startsWith(`v2:${formatKdfTag(params)}:`)).toBe(true);
+        const reopened = await openStorage();
+        expect(await reopened.loadMasterPassword('wrong password')).toBe(false);
+        expect(await reopened.loadMasterPassword(PASSWORD)).toBe(true);
+        expect(reopened.getKdf()).toEqual(params);
+        expect((await reopened.loadWallets()).map(w => w.id)).toEqual([id]);
+    }, 120000);
+
+    it('rejects an envelope whose header was altered, as the header is authenticated', async () => {
+        const storage = await openStorage();
+        await storage.setMasterPassword(PASSWORD);
+        await storage.saveWatchWallet([{ address: V1_WALLET.address }], 'watched');
+        const envelope = fs.readFileSync(storagePath('wallets.enc'), 'utf8');
+        fs.writeFileSync(storagePath('wallets.enc'), envelope.replace(/^v2:scrypt,N=131072,/, 'v2:scrypt,N=65536,'));
+
+        expect(fs.readFileSync(storagePath('wallets.enc'), 'utf8')).not.toBe(envelope);
+        expect(() => storage.decryptData(fs.readFileSync(storagePath('wallets.enc'), 'utf8'))).toThrow('Decryption failed');
+        expect(storage.decryptData(envelope)).toContain('watched');
+    }, 30000);
+});
+
+describe('clear all data', () => {
+    it('keeps wallet versions with their salt when asked, so the vault can be put back', async () => {
+        const storage = await openStorage();
+        await storage.setMasterPassword(PASSWORD);
+        await storage.saveWatchWallet([{ address: V1_WALLET.address }], 'first');
+        const second = await storage.saveWatchWallet([{ address: '0x3333333333333333333333333333333333333333' }], 'second');
+
+        const dir = await storage.clearAllData(true);
+
+        expect(['wallets.enc', 'salt.enc', 'generations'].filter(name => fs.existsSync(storagePath(name)))).toEqual([]);
+        fs.renameSync(path.join(dir!, 'salt.enc'), storagePath('salt.enc'));
+        fs.renameSync(path.join(dir!, 'generations'), storagePath('generations'));
+        const reopened = await openStorage();
+        expect(await reopened.loadMasterPassword(PASSWORD)).toBe(true);
+        const [latest] = await reopened.listWalletGenerations();
+        expect((await reopened.restoreWalletGeneration(latest!.id)).map(w => w.name)).toEqual(['first', 'second']);
+        expect(await reopened.getWallet(second)).toBeDefined();
+    }, 30000);
+
+    it('deletes previous versions and backups otherwise', async () => {
+        const storage = await openStorage();
+        await storage.setMasterPassword(PASSWORD);
+        await storage.saveWatchWallet([{ address: V1_WALLET.address }], 'first');
+        await storage.saveWatchWallet([{ address: '0x3333333333333333333333333333333333333333' }], 'second');
+        expect(storage.hasRetainedCopies()).toBe(true);
+
+        expect(await storage.clearAllData()).toBeNull();
+
+        expect(['wallets.enc', 'salt.enc', 'generations', 'backups'].filter(name => fs.existsSync(storagePath(name)))).toEqual([]);
+    }, 30000);
+});